@@ -2,10 +2,15 @@ import { ApplicationConfig, provideBrowserGlobalErrorListeners } from '@angular/
 import { provideRouter } from '@angular/router';
 
 import { routes } from './app.routes';
+import { provideWorkOrderStorage } from './services/work-order-storage-service/work-order-storage.token';
+import { StorageBackendEnum } from './enums/storage-backend';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
-    provideRouter(routes)
+    provideRouter(routes),
+    // Switch to StorageBackendEnum.HTTP to share the schedule through the REST API.
+    // 'useMockApi' serves that API from memory so it also runs offline.
+    provideWorkOrderStorage(StorageBackendEnum.LOCAL, { useMockApi: true })
   ]
 };
@@ -1,3 +1,21 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+import { TimelineView } from './components/timeline-view/timeline-view';
+import { Dashboard } from './components/dashboard/dashboard';
+
+// WHAT: '/timeline' and '/orders/:id' share one TimelineView instance.
+// HOW: The child routes are componentless, so opening an order keeps the grid (and its
+// scroll position) alive while the view opens the WorkOrderPanel for the id.
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', redirectTo: 'timeline' },
+  { path: 'dashboard', component: Dashboard },
+  {
+    path: '',
+    component: TimelineView,
+    children: [
+      { path: 'timeline', children: [] },
+      { path: 'orders/:id', children: [] },
+    ],
+  },
+  { path: '**', redirectTo: 'timeline' },
+];
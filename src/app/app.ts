@@ -1,74 +1,75 @@
-import { Component, inject, signal } from '@angular/core';
+import { Component, computed, HostListener, inject } from '@angular/core';
 import { NgOptimizedImage } from '@angular/common';
+import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 
 import { WorkOrderService } from './services/work-order-service/work-order.service';
-import { ModalService } from './services/modal-service/modal-service';
+import { ToastService } from './services/toast-service/toast.service';
+import { WorkOrderHealthService } from './services/work-order-health-service/work-order-health.service';
+import { AnnouncerService } from './services/announcer-service/announcer.service';
+import { StorageSchemaService } from './services/storage-schema-service/storage-schema.service';
+import { UserProfileService } from './services/user-profile-service/user-profile.service';
 
-import { ZoomSelector } from './components/zoom-selector/zoom-selector';
-import { WorkOrderPanel } from './components/work-order-panel/work-order-panel';
-import { Timeline } from './components/timeline/timeline';
-
-import WorkOrder from './models/work-order';
-import { ZoomLevelEnum } from './enums/zoom-level';
+import { ToastContainer } from './components/toast-container/toast-container';
+import { SyncConflictAlert } from './components/sync-conflict-alert/sync-conflict-alert';
 
 @Component({
   selector: 'app-root',
-  imports: [ZoomSelector, NgOptimizedImage, Timeline],
+  imports: [NgOptimizedImage, RouterLink, RouterLinkActive, RouterOutlet, ToastContainer, SyncConflictAlert],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
-  private readonly modalService: ModalService = inject(ModalService);
+  private readonly toastService: ToastService = inject(ToastService);
+  private readonly workOrderHealthService: WorkOrderHealthService = inject(WorkOrderHealthService);
+  private readonly announcerService: AnnouncerService = inject(AnnouncerService);
+  private readonly storageSchemaService: StorageSchemaService = inject(StorageSchemaService);
+  private readonly userProfileService: UserProfileService = inject(UserProfileService);
 
-  readonly workCenters = this.workOrderService.workCenters;
-  readonly orders = this.workOrderService.orders;
+  readonly loading = this.workOrderService.loading;
+  readonly error = this.workOrderService.error;
+  readonly attention = this.workOrderHealthService.attention;
+  readonly announcement = this.announcerService.message;
+  readonly recoveryNotice = this.storageSchemaService.recoveryNotice;
+  readonly profileName = computed(() => this.userProfileService.profile().name);
 
-  // WHAT: Reactive state for the current timescale.
-  // HOW: Managed via a Signal to ensure that when the zoom changes, all
-  // dependent timeline calculations re-run automatically.
-  zoom = signal<ZoomLevelEnum>(ZoomLevelEnum.MONTH);
+  retryLoad(): void {
+    this.workOrderService.reload();
+  }
 
-  /** * WHAT: Launches the creation flow for a new work order.
-   * HOW: Opens the dynamic WorkOrderPanel with context-specific data and
-   * subscribes to the result to add a new record to the centralized state.
-   */
-  openCreatePanel(workCenterId: string, date: Date): void {
-    this.modalService
-      .open(WorkOrderPanel, {
-        editingOrder: null,
-        workCenterId: workCenterId,
-        initialStartDate: date,
+  dismissError(): void {
+    this.workOrderService.clearError();
+  }
 
-      })
-      .subscribe((result: Omit<WorkOrder, 'id'> & { id?: string }) => {
-        if (!result) return;
-        this.workOrderService.addOrder(result);
-      });
+  dismissRecoveryNotice(): void {
+    this.storageSchemaService.dismissNotice();
   }
 
-  /** * WHAT: Launches the edit flow for an existing work order.
-   * HOW: Opens the dynamic WorkOrderPanel with existing order data and
-   * subscribes to the result to update the record in the centralized state.
-   */
-  openEditPanel(order: WorkOrder): void {
-    this.modalService
-      .open(WorkOrderPanel, {
-        editingOrder: order,
-        workCenterId: null,
-        initialStartDate: null,
-      })
-      .subscribe((result: WorkOrder) => {
-        if (!result) return;
-        this.workOrderService.updateOrder(result);
-      });
+  setProfileName(name: string): void {
+    this.userProfileService.setName(name);
   }
 
-  /** * WHAT: Orchestrates order removal from the UI.
-   * HOW: Delegates the deletion to the WorkOrderService, which handles
-   * state updates and local storage persistence.
+  /** * WHAT: Global Undo (Ctrl/Cmd+Z) and Redo (Ctrl/Cmd+Shift+Z or Ctrl+Y) shortcuts.
+   * HOW: Ignores key presses inside editable fields so native text undo keeps
+   * working, then reports what was reverted or re-applied via a toast.
    */
-  onDeleteOrder(orderId: string): void {
-    this.workOrderService.deleteOrder(orderId);
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeyDown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey)) return;
+
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+    const key = event.key.toLowerCase();
+    const isUndo = key === 'z' && !event.shiftKey;
+    const isRedo = (key === 'z' && event.shiftKey) || key === 'y';
+    if (!isUndo && !isRedo) return;
+
+    event.preventDefault();
+
+    const entry = isUndo ? this.workOrderService.undo() : this.workOrderService.redo();
+    if (entry) {
+      this.toastService.show(`${isUndo ? 'Undid' : 'Redid'}: ${entry.label}`);
+    }
   }
 }
@@ -0,0 +1,38 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BulkActionBar } from './bulk-action-bar';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+describe('BulkActionBar', () => {
+  let component: BulkActionBar;
+  let fixture: ComponentFixture<BulkActionBar>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BulkActionBar]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(BulkActionBar);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('selectedCount', 2);
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should only emit whole, non-zero shifts', () => {
+    const emitted: { steps: number; zoom: ZoomLevelEnum }[] = [];
+    component.shiftDates.subscribe(shift => emitted.push(shift));
+
+    component.shiftAmount.setValue(0);
+    component.onShiftDates();
+    component.shiftAmount.setValue(-2);
+    component.shiftUnit.setValue(ZoomLevelEnum.WEEK);
+    component.onShiftDates();
+
+    expect(emitted).toEqual([{ steps: -2, zoom: ZoomLevelEnum.WEEK }]);
+  });
+});
@@ -0,0 +1,77 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import WorkCenter from '../../models/work-center';
+import StatusDefinition from '../../models/status-definition';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+@Component({
+  selector: 'app-bulk-action-bar',
+  imports: [
+    ReactiveFormsModule,
+    NgSelectModule
+  ],
+  templateUrl: './bulk-action-bar.html',
+  styleUrl: './bulk-action-bar.scss',
+})
+export class BulkActionBar {
+  @Input() selectedCount = 0;
+  @Input() workCenters: WorkCenter[] = [];
+  @Input() statuses: StatusDefinition[] = [];
+
+  @Output() setStatus = new EventEmitter<{ status: string; blockedReason?: string }>();
+  @Output() shiftDates = new EventEmitter<{ steps: number; zoom: ZoomLevelEnum }>();
+  @Output() moveToWorkCenter = new EventEmitter<string>();
+  @Output() delete = new EventEmitter<void>();
+  @Output() clear = new EventEmitter<void>();
+
+  readonly shiftUnitOptions = [
+    { value: ZoomLevelEnum.DAY, label: 'Days' },
+    { value: ZoomLevelEnum.WEEK, label: 'Weeks' }
+  ];
+
+  status = new FormControl<string | null>(null);
+  blockedReason = new FormControl('', { nonNullable: true });
+  shiftAmount = new FormControl<number | null>(1);
+  shiftUnit = new FormControl(ZoomLevelEnum.DAY, { nonNullable: true });
+  workCenterId = new FormControl<string | null>(null);
+
+  // WHAT: Whether the chosen status is of the blocked category, which asks for a block reason.
+  get isBlockedStatusSelected(): boolean {
+    return this.statuses.some(status => status.id === this.status.value && status.category === StatusCategoryEnum.BLOCKED);
+  }
+
+  get canSetStatus(): boolean {
+    if (this.status.value === null) return false;
+    return !this.isBlockedStatusSelected || !!this.blockedReason.value.trim();
+  }
+
+  /** * WHAT: Emits the status to give the selection.
+   * HOW: Blocking requires a reason, which is sent along for every selected order.
+   */
+  onSetStatus(): void {
+    if (!this.canSetStatus) return;
+
+    const status = this.status.value!;
+    this.setStatus.emit(this.isBlockedStatusSelected
+      ? { status, blockedReason: this.blockedReason.value.trim() }
+      : { status });
+  }
+
+  /** * WHAT: Emits a shift by a whole number of days or weeks.
+   * HOW: Negative amounts move the orders earlier; zero or non-integer amounts are ignored.
+   */
+  onShiftDates(): void {
+    const steps = this.shiftAmount.value;
+    if (!steps || !Number.isInteger(steps)) return;
+
+    this.shiftDates.emit({ steps, zoom: this.shiftUnit.value });
+  }
+
+  onMoveToWorkCenter(): void {
+    if (!this.workCenterId.value) return;
+    this.moveToWorkCenter.emit(this.workCenterId.value);
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CascadePreview } from './cascade-preview';
+
+describe('CascadePreview', () => {
+  let component: CascadePreview;
+  let fixture: ComponentFixture<CascadePreview>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CascadePreview]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CascadePreview);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
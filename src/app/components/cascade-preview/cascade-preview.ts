@@ -0,0 +1,61 @@
+import { Component, ElementRef, HostListener, inject, Input, ViewChild } from '@angular/core';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import WorkOrderChange from '../../models/work-order-change';
+
+@Component({
+  selector: 'app-cascade-preview',
+  imports: [BaseModal],
+  templateUrl: './cascade-preview.html',
+  styleUrl: './cascade-preview.scss',
+})
+export class CascadePreview {
+  @Input() changes: WorkOrderChange[] = [];
+
+  @ViewChild('firstElement') firstElement!: ElementRef;
+  @ViewChild('lastElement') lastElement!: ElementRef;
+
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly modalService: ModalService = inject(ModalService);
+
+  public isClosing: boolean = false;
+
+  /** * WHAT: Prevents the user from tabbing out of the modal.
+   * HOW: Cycles focus between the two action buttons, in both directions.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Tab') return;
+
+    const first = this.firstElement.nativeElement;
+    const last = this.lastElement.nativeElement;
+
+    if (!event.shiftKey && document.activeElement === last) {
+      first.focus();
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      last.focus();
+      event.preventDefault();
+    }
+  }
+
+  getWorkCenterName(workCenterId: string | undefined): string {
+    return this.workOrderService.workCenters().find(workCenter => workCenter.id === workCenterId)?.name ?? '—';
+  }
+
+  /** * WHAT: Closes the preview with the user's decision.
+   * HOW: Plays the slide-out animation first, then resolves the ModalService
+   * subscription with 'true' when the cascade should be applied.
+   */
+  closePreview(confirmed: boolean = false): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close(confirmed);
+    }, 250);
+  }
+}
@@ -0,0 +1,89 @@
+import { Component, computed, inject } from '@angular/core';
+import { Params, RouterLink } from '@angular/router';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ScheduleStatsService } from '../../services/schedule-stats-service/schedule-stats.service';
+import { TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+@Component({
+  selector: 'app-dashboard',
+  imports: [RouterLink],
+  templateUrl: './dashboard.html',
+  styleUrl: './dashboard.scss',
+})
+export class Dashboard {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly scheduleStatsService: ScheduleStatsService = inject(ScheduleStatsService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  readonly orders = this.workOrderService.orders;
+  readonly statuses = this.statusConfigService.statuses;
+  readonly todayIso = this.scheduleStatsService.getTodayIso();
+
+  readonly statusCounts = computed(() => this.scheduleStatsService.countByStatus(this.orders()));
+
+  // WHAT: The "Blocked orders" KPI covers every status of the blocked category.
+  readonly blockedStatusIds = computed(() => this.statusConfigService.getStatusIds(StatusCategoryEnum.BLOCKED));
+  readonly blockedCount = computed(() =>
+    this.blockedStatusIds().reduce((total, statusId) => total + (this.statusCounts().get(statusId) ?? 0), 0)
+  );
+
+  readonly workCenterCounts = computed(() => {
+    const counts = this.scheduleStatsService.countByWorkCenter(this.orders());
+    return this.workOrderService.activeWorkCenters().map(workCenter => ({
+      workCenter,
+      count: counts.get(workCenter.id) ?? 0,
+    }));
+  });
+
+  readonly overdueCount = computed(() =>
+    this.orders().filter(order => this.scheduleStatsService.isOverdue(order, this.todayIso)).length
+  );
+
+  readonly upcomingWindows = computed(() => [7, 30].map(days => ({
+    days,
+    ...this.scheduleStatsService.getStartingWithin(this.orders(), days, this.todayIso),
+  })));
+
+  readonly averageLeadTimeDays = computed(() => {
+    const days = this.scheduleStatsService.getAverageLeadTimeDays(this.orders());
+    return days === null ? null : Math.round(days * 10) / 10;
+  });
+
+  // WHAT: Bar lengths of the breakdown lists, relative to the largest group.
+  readonly maxStatusCount = computed(() => Math.max(1, ...this.statusCounts().values()));
+  readonly maxWorkCenterCount = computed(() => Math.max(1, ...this.workCenterCounts().map(({ count }) => count)));
+
+  /** * WHAT: Timeline query params for the orders behind each KPI.
+   * HOW: Uses the same '?status=', '?wc=', '?since=', '?until=' and '?dates=' params as the
+   * filter bar, so the timeline shows exactly the counted orders.
+   */
+  getStatusQueryParams(statusIds: string[]): Params {
+    return { status: statusIds.join(',') };
+  }
+
+  getWorkCenterQueryParams(workCenterId: string): Params {
+    return { wc: workCenterId };
+  }
+
+  getOverdueQueryParams(): Params {
+    const unfinishedStatuses = this.statuses()
+      .filter(status => status.category !== StatusCategoryEnum.DONE)
+      .map(status => status.id);
+
+    return {
+      status: unfinishedStatuses.join(','),
+      dates: 'end',
+      until: this.timelineUtilService.shiftIsoDate(this.todayIso, ZoomLevelEnum.DAY, -1),
+    };
+  }
+
+  getUpcomingQueryParams(until: string): Params {
+    return { dates: 'start', since: this.todayIso, until, from: this.todayIso };
+  }
+}
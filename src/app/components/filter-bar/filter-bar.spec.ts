@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { FilterBar } from './filter-bar';
+import { EMPTY_TIMELINE_FILTER } from '../../services/timeline-filter-service/timeline-filter.service';
+
+describe('FilterBar', () => {
+  let component: FilterBar;
+  let fixture: ComponentFixture<FilterBar>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FilterBar]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(FilterBar);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('filter', EMPTY_TIMELINE_FILTER);
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,42 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import TimelineFilter from '../../models/timeline-filter';
+import WorkCenter from '../../models/work-center';
+import StatusDefinition from '../../models/status-definition';
+import { TimelineDateFieldEnum } from '../../enums/timeline-date-field';
+
+@Component({
+  selector: 'app-filter-bar',
+  imports: [
+    FormsModule,
+    NgSelectModule
+  ],
+  templateUrl: './filter-bar.html',
+  styleUrl: './filter-bar.scss',
+})
+export class FilterBar {
+  @Input() filter!: TimelineFilter;
+  @Input() workCenters: WorkCenter[] = [];
+  @Input() statuses: StatusDefinition[] = [];
+  @Input() matchCount = 0;
+  @Input() totalCount = 0;
+  @Input() isActive = false;
+
+  @Output() filterChange = new EventEmitter<TimelineFilter>();
+  @Output() clear = new EventEmitter<void>();
+
+  readonly dateFieldOptions = [
+    { value: TimelineDateFieldEnum.SCHEDULE, label: 'Scheduled in range' },
+    { value: TimelineDateFieldEnum.START, label: 'Starting in range' },
+    { value: TimelineDateFieldEnum.END, label: 'Ending in range' }
+  ];
+
+  /** * WHAT: Emits the filter with one criterion replaced.
+   * HOW: Builds a new object so the parent's Signal sees a fresh value.
+   */
+  patch<K extends keyof TimelineFilter>(key: K, value: TimelineFilter[K]): void {
+    this.filterChange.emit({ ...this.filter, [key]: value });
+  }
+}
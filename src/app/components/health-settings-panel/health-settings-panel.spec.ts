@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { HealthSettingsPanel } from './health-settings-panel';
+
+describe('HealthSettingsPanel', () => {
+  let component: HealthSettingsPanel;
+  let fixture: ComponentFixture<HealthSettingsPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [HealthSettingsPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(HealthSettingsPanel);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
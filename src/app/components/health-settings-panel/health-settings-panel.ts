@@ -0,0 +1,65 @@
+import { Component, ElementRef, HostListener, inject, ViewChild } from '@angular/core';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+
+import { WorkOrderHealthService } from '../../services/work-order-health-service/work-order-health.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import HealthSettings from '../../models/health-settings';
+
+const dayCountValidators = [Validators.required, Validators.min(0), Validators.pattern(/^\d+$/)];
+
+@Component({
+  selector: 'app-health-settings-panel',
+  imports: [
+    ReactiveFormsModule,
+    BaseModal
+  ],
+  templateUrl: './health-settings-panel.html',
+  styleUrl: './health-settings-panel.scss',
+})
+export class HealthSettingsPanel {
+  @ViewChild('firstElement') firstElement!: ElementRef<HTMLButtonElement>;
+  @ViewChild('lastElement') lastElement!: ElementRef<HTMLInputElement>;
+
+  private readonly workOrderHealthService: WorkOrderHealthService = inject(WorkOrderHealthService);
+  private readonly modalService: ModalService = inject(ModalService);
+
+  public isClosing: boolean = false;
+
+  form = new FormGroup({
+    overdueGraceDays: new FormControl<number>(this.workOrderHealthService.settings().overdueGraceDays, dayCountValidators),
+    lateStartGraceDays: new FormControl<number>(this.workOrderHealthService.settings().lateStartGraceDays, dayCountValidators),
+    blockedDays: new FormControl<number>(this.workOrderHealthService.settings().blockedDays, dayCountValidators),
+  });
+
+  /** * WHAT: Prevents the user from tabbing out of the modal.
+   * HOW: Cycles focus back to the first element once the last field is reached.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Tab' && document.activeElement === this.lastElement.nativeElement && !event.shiftKey) {
+      this.firstElement.nativeElement.focus();
+      event.preventDefault();
+    }
+  }
+
+  onSubmit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.workOrderHealthService.setSettings(this.form.getRawValue() as HealthSettings);
+    this.closePanel();
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ScheduleTransferPanel } from './schedule-transfer-panel';
+
+describe('ScheduleTransferPanel', () => {
+  let component: ScheduleTransferPanel;
+  let fixture: ComponentFixture<ScheduleTransferPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ScheduleTransferPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ScheduleTransferPanel);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,186 @@
+import { Component, computed, ElementRef, HostListener, inject, signal, ViewChild } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+import { ToastService } from '../../services/toast-service/toast.service';
+import { ScheduleTransferService } from '../../services/schedule-transfer-service/schedule-transfer.service';
+import { CalendarExportService } from '../../services/calendar-export-service/calendar-export.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import ImportFieldMapping from '../../models/import-field-mapping';
+import ImportSource from '../../models/import-source';
+import { ImportModeEnum } from '../../enums/import-mode';
+
+@Component({
+  selector: 'app-schedule-transfer-panel',
+  imports: [
+    FormsModule,
+    NgSelectModule,
+    BaseModal
+  ],
+  templateUrl: './schedule-transfer-panel.html',
+  styleUrl: './schedule-transfer-panel.scss',
+})
+export class ScheduleTransferPanel {
+  @ViewChild('panel') panelElement!: ElementRef<HTMLElement>;
+
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly modalService: ModalService = inject(ModalService);
+  private readonly toastService: ToastService = inject(ToastService);
+  private readonly scheduleTransferService: ScheduleTransferService = inject(ScheduleTransferService);
+  private readonly calendarExportService: CalendarExportService = inject(CalendarExportService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  public isClosing: boolean = false;
+
+  readonly workCenters = this.workOrderService.activeWorkCenters;
+  calendarWorkCenterId: string | null = null;
+  calendarFrom = '';
+  calendarTo = '';
+
+  readonly mappingFields: { key: keyof ImportFieldMapping; label: string; required: boolean }[] = [
+    { key: 'name', label: 'Name', required: true },
+    { key: 'workCenterId', label: 'Work center ID', required: true },
+    { key: 'startDate', label: 'Start date', required: true },
+    { key: 'endDate', label: 'End date', required: true },
+    { key: 'status', label: 'Status', required: false },
+    { key: 'id', label: 'Order ID', required: false },
+  ];
+
+  readonly source = signal<ImportSource | null>(null);
+  readonly mapping = signal<ImportFieldMapping | null>(null);
+  readonly mode = signal(ImportModeEnum.MERGE);
+  readonly fileError = signal<string | null>(null);
+
+  readonly rowResults = computed(() => {
+    const source = this.source();
+    const mapping = this.mapping();
+    return source && mapping ? this.scheduleTransferService.validateRows(source, mapping, this.mode()) : [];
+  });
+  readonly validRows = computed(() => this.rowResults().filter(result => !result.errors.length));
+  readonly invalidRowCount = computed(() => this.rowResults().length - this.validRows().length);
+
+  protected readonly ImportModeEnum = ImportModeEnum;
+
+  getStatusLabel(statusId: string): string {
+    return this.statusConfigService.getLabel(statusId);
+  }
+
+  /** * WHAT: Keeps keyboard focus inside the panel.
+   * HOW: Resolves the first and last focusable elements on every Tab press (the import
+   * step adds controls while the panel is open) and wraps focus around in both directions.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.panelElement) return;
+
+    const focusableElements = this.panelElement.nativeElement.querySelectorAll<HTMLElement>(
+      'button:not([disabled]), input:not([disabled])'
+    );
+    const first = focusableElements[0];
+    const last = focusableElements[focusableElements.length - 1];
+
+    if (!event.shiftKey && document.activeElement === last) {
+      first.focus();
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      last.focus();
+      event.preventDefault();
+    }
+  }
+
+  onExportJson(): void {
+    this.scheduleTransferService.downloadFile('schedule.json', this.scheduleTransferService.exportJson(), 'application/json');
+  }
+
+  onExportOrdersCsv(): void {
+    this.scheduleTransferService.downloadFile('work-orders.csv', this.scheduleTransferService.exportOrdersCsv(), 'text/csv');
+  }
+
+  onExportWorkCentersCsv(): void {
+    this.scheduleTransferService.downloadFile('work-centers.csv', this.scheduleTransferService.exportWorkCentersCsv(), 'text/csv');
+  }
+
+  /** * WHAT: Downloads the schedule as an iCalendar file.
+   * HOW: Exports every order, or only the orders of the selected work center, optionally
+   * narrowed to the orders overlapping the chosen date range, naming both the calendar
+   * and the file after the work center scope.
+   */
+  onExportCalendar(): void {
+    const workCenter = this.workCenters().find(existingWorkCenter => existingWorkCenter.id === this.calendarWorkCenterId);
+    const orders = (workCenter
+      ? this.workOrderService.getOrdersForWorkCenter(workCenter.id)
+      : this.workOrderService.orders()
+    ).filter(order =>
+      (!this.calendarFrom || order.endDate > this.calendarFrom) &&
+      (!this.calendarTo || order.startDate <= this.calendarTo)
+    );
+    const calendarName = workCenter?.name ?? 'Work orders';
+
+    this.scheduleTransferService.downloadFile(
+      `${calendarName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`,
+      this.calendarExportService.buildCalendar(orders, this.workOrderService.workCenters(), calendarName),
+      'text/calendar'
+    );
+  }
+
+  /** * WHAT: Reads the chosen file and starts the mapping step.
+   * HOW: Parses it through the ScheduleTransferService and pre-fills the column
+   * mapping from the header names; unreadable files only show an error.
+   */
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    file.text().then(content => {
+      const source = this.scheduleTransferService.readImportFile(file.name, content);
+
+      this.source.set(source);
+      this.mapping.set(source ? this.scheduleTransferService.suggestMapping(source.columns) : null);
+      this.fileError.set(source
+        ? null
+        : 'This file could not be read. Use a CSV file with a header line, or a JSON file exported from this app.');
+    });
+  }
+
+  onMappingChange(field: keyof ImportFieldMapping, column: string | null): void {
+    this.mapping.update(mapping => mapping && { ...mapping, [field]: column ?? null });
+  }
+
+  /** * WHAT: Applies the valid rows to the schedule.
+   * HOW: Rows with errors are left out; the import is a single history entry, so the
+   * confirmation toast can offer to undo it.
+   */
+  onImport(): void {
+    const validRows = this.validRows();
+    if (!validRows.length) return;
+
+    const entry = this.workOrderService.importSchedule(
+      validRows.map(result => result.order),
+      this.source()?.workCenters ?? [],
+      this.mode()
+    );
+
+    if (entry) {
+      this.toastService.show(`Imported ${validRows.length} orders.`, {
+        actionLabel: 'Undo',
+        action: () => this.workOrderService.undo(entry.id),
+      });
+    }
+
+    this.closePanel();
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+}
@@ -0,0 +1,102 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { StatusSettingsPanel } from './status-settings-panel';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('StatusSettingsPanel', () => {
+  let component: StatusSettingsPanel;
+  let fixture: ComponentFixture<StatusSettingsPanel>;
+  let statusConfigService: StatusConfigService;
+  let workOrderService: WorkOrderService;
+
+  const getInput = (label: string): HTMLInputElement =>
+    fixture.nativeElement.querySelector(`input[aria-label="${label}"]`);
+
+  const changeInput = (input: HTMLInputElement, value: string) => {
+    input.value = value;
+    input.dispatchEvent(new Event('change'));
+  };
+
+  const addReviewStatus = () => {
+    statusConfigService.addStatus('Review', '#3e40db', StatusCategoryEnum.ACTIVE);
+    return statusConfigService.statuses().at(-1)!;
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [StatusSettingsPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(StatusSettingsPanel);
+    component = fixture.componentInstance;
+    statusConfigService = TestBed.inject(StatusConfigService);
+    workOrderService = TestBed.inject(WorkOrderService);
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should rename and recolor a status, refusing names already taken', () => {
+    changeInput(getInput('Name of Open'), 'To do');
+    changeInput(getInput('Color of Open'), '#123456');
+    expect(statusConfigService.getStatus(WorkOrderStatusEnum.OPEN)).toEqual(expect.objectContaining({ label: 'To do', color: '#123456' }));
+
+    const nameInput = getInput('Name of Completed');
+    changeInput(nameInput, 'to do');
+    expect(statusConfigService.getLabel(WorkOrderStatusEnum.COMPLETED)).toBe('Completed');
+    expect(nameInput.value).toBe('Completed');
+    expect(component.statusError).toEqual({ statusId: WorkOrderStatusEnum.COMPLETED, message: 'A status called "to do" already exists.' });
+  });
+
+  it('should only change the category of unused statuses that are not the last of their category', () => {
+    const usedStatus = statusConfigService.getStatus(WorkOrderStatusEnum.IN_PROGRESS);
+    component.onCategoryChange(usedStatus, StatusCategoryEnum.DONE);
+    expect(statusConfigService.isInCategory(usedStatus.id, StatusCategoryEnum.ACTIVE)).toBe(true);
+    expect(component.statusError?.message).toBe('Move its orders to another status before changing the category.');
+
+    const review = addReviewStatus();
+    component.onCategoryChange(review, StatusCategoryEnum.DONE);
+    expect(statusConfigService.isInCategory(review.id, StatusCategoryEnum.DONE)).toBe(true);
+
+    const notStarted = statusConfigService.getStatus(WorkOrderStatusEnum.OPEN);
+    workOrderService.replaceStatus(notStarted.id, WorkOrderStatusEnum.IN_PROGRESS, () => undefined);
+    component.onCategoryChange(notStarted, StatusCategoryEnum.ACTIVE);
+    expect(component.statusError?.message).toBe('Each category needs at least one status.');
+  });
+
+  it('should move the orders of a deleted status to the chosen replacement', () => {
+    const review = addReviewStatus();
+    workOrderService.addOrder({ ...workOrderService.orders()[0], name: 'In review', status: review.id });
+
+    component.onRequestRemoval(review);
+    expect(component.pendingRemoval).toBe(review);
+
+    component.onConfirmRemoval();
+    expect(component.removalError).toBe('Choose a status to move the orders to.');
+
+    component.replacementStatusId = WorkOrderStatusEnum.IN_PROGRESS;
+    component.onConfirmRemoval();
+    expect(component.pendingRemoval).toBeNull();
+    expect(statusConfigService.statuses().some(status => status.id === review.id)).toBe(false);
+    expect(workOrderService.orders().find(order => order.name === 'In review')?.status).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+  });
+
+  it('should delete unused statuses right away but keep the last of a category', () => {
+    const review = addReviewStatus();
+
+    component.onRequestRemoval(review);
+    expect(statusConfigService.statuses().some(status => status.id === review.id)).toBe(false);
+
+    component.onRequestRemoval(statusConfigService.getStatus(WorkOrderStatusEnum.BLOCKED));
+    expect(statusConfigService.getStatusIds(StatusCategoryEnum.BLOCKED)).toEqual([WorkOrderStatusEnum.BLOCKED]);
+    expect(component.statusError?.message).toBe('Each category needs at least one status.');
+  });
+});
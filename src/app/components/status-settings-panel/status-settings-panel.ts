@@ -0,0 +1,230 @@
+import { Component, ElementRef, HostListener, inject, ViewChild } from '@angular/core';
+import { FormControl, FormsModule, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+import { StatusWorkflowService } from '../../services/status-workflow-service/status-workflow.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import StatusDefinition from '../../models/status-definition';
+import { StatusCategoryEnum } from '../../enums/status-category';
+
+const DEFAULT_NEW_STATUS_COLOR = '#687196';
+
+@Component({
+  selector: 'app-status-settings-panel',
+  imports: [
+    FormsModule,
+    ReactiveFormsModule,
+    NgSelectModule,
+    BaseModal
+  ],
+  templateUrl: './status-settings-panel.html',
+  styleUrl: './status-settings-panel.scss',
+})
+export class StatusSettingsPanel {
+  @ViewChild('panel') panelElement!: ElementRef<HTMLElement>;
+
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly modalService: ModalService = inject(ModalService);
+
+  readonly statuses = this.statusConfigService.statuses;
+
+  public isClosing: boolean = false;
+
+  pendingRemoval: StatusDefinition | null = null;
+  replacementStatusId: string | null = null;
+  removalError: string | null = null;
+  statusError: { statusId: string; message: string } | null = null;
+  addError: string | null = null;
+
+  readonly categoryOptions = [
+    { value: StatusCategoryEnum.NOT_STARTED, label: 'Not started' },
+    { value: StatusCategoryEnum.ACTIVE, label: 'Active' },
+    { value: StatusCategoryEnum.DONE, label: 'Done' },
+    { value: StatusCategoryEnum.BLOCKED, label: 'Blocked' }
+  ];
+
+  newStatusLabel = new FormControl('', { nonNullable: true, validators: [Validators.required] });
+  newStatusColor = new FormControl(DEFAULT_NEW_STATUS_COLOR, { nonNullable: true });
+  newStatusCategory = new FormControl(StatusCategoryEnum.ACTIVE, { nonNullable: true });
+
+  /** * WHAT: Keeps keyboard focus inside the panel.
+   * HOW: Resolves the first and last focusable elements on every Tab press (the list
+   * changes while the panel is open) and wraps focus around in both directions.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.panelElement) return;
+
+    const focusableElements = this.panelElement.nativeElement.querySelectorAll<HTMLElement>(
+      'button:not([disabled]), input:not([disabled])'
+    );
+    const first = focusableElements[0];
+    const last = focusableElements[focusableElements.length - 1];
+
+    if (!event.shiftKey && document.activeElement === last) {
+      first.focus();
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      last.focus();
+      event.preventDefault();
+    }
+  }
+
+  /** * WHAT: Number of orders that still refer to a status.
+   * HOW: Counts blocked orders returning to it as well, since those would end up on a missing status.
+   */
+  getOrderCount(statusId: string): number {
+    return this.workOrderService.orders()
+      .filter(order => order.status === statusId || order.blockedFromStatus === statusId)
+      .length;
+  }
+
+  getReplacementTargets(status: StatusDefinition): StatusDefinition[] {
+    return this.statuses().filter(candidate => candidate.id !== status.id && candidate.category === status.category);
+  }
+
+  onAddStatus(): void {
+    const label = this.newStatusLabel.value.trim();
+    this.addError = null;
+
+    if (!label) {
+      this.newStatusLabel.markAsTouched();
+      return;
+    }
+
+    if (this.isLabelTaken(label)) {
+      this.addError = `A status called "${label}" already exists.`;
+      return;
+    }
+
+    this.statusConfigService.addStatus(label, this.newStatusColor.value, this.newStatusCategory.value);
+    this.newStatusLabel.reset();
+    this.newStatusColor.reset();
+    this.newStatusCategory.reset();
+  }
+
+  /** * WHAT: Commits an inline rename.
+   * HOW: Ignores blank or unchanged labels, rejects labels used by another status (imports
+   * match statuses by label) and restores the input to the stored value when refused.
+   */
+  onRename(status: StatusDefinition, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const label = input.value.trim();
+    this.statusError = null;
+
+    if (!label || label === status.label) {
+      input.value = status.label;
+      return;
+    }
+
+    if (this.isLabelTaken(label, status.id)) {
+      input.value = status.label;
+      this.statusError = { statusId: status.id, message: `A status called "${label}" already exists.` };
+      return;
+    }
+
+    this.statusConfigService.updateStatus(status.id, { label });
+  }
+
+  onColorChange(status: StatusDefinition, event: Event): void {
+    this.statusConfigService.updateStatus(status.id, { color: (event.target as HTMLInputElement).value });
+  }
+
+  /** * WHAT: Moves a status to another category.
+   * HOW: Refused while orders use the status, since their blocked state and warnings
+   * were derived from the old category.
+   */
+  onCategoryChange(status: StatusDefinition, category: StatusCategoryEnum): void {
+    this.statusError = null;
+
+    if (this.getOrderCount(status.id)) {
+      this.statusError = { statusId: status.id, message: 'Move its orders to another status before changing the category.' };
+      return;
+    }
+
+    if (this.getReplacementTargets(status).length === 0) {
+      this.statusError = { statusId: status.id, message: 'Each category needs at least one status.' };
+      return;
+    }
+
+    this.statusConfigService.updateStatus(status.id, { category });
+  }
+
+  onMove(status: StatusDefinition, direction: -1 | 1): void {
+    this.statusConfigService.moveStatus(status.id, direction);
+  }
+
+  /** * WHAT: Starts deleting a status.
+   * HOW: The last status of a category cannot be deleted. Unused statuses are deleted
+   * immediately; statuses with orders open an inline step asking which status of the
+   * same category should replace it.
+   */
+  onRequestRemoval(status: StatusDefinition): void {
+    this.removalError = null;
+    this.replacementStatusId = null;
+    this.statusError = null;
+
+    if (this.getReplacementTargets(status).length === 0) {
+      this.statusError = { statusId: status.id, message: 'Each category needs at least one status.' };
+      return;
+    }
+
+    if (this.getOrderCount(status.id) === 0) {
+      this.deleteStatus(status);
+      return;
+    }
+
+    this.pendingRemoval = status;
+  }
+
+  /** * WHAT: Completes a pending delete that requires moving orders to another status.
+   * HOW: The orders are moved first; the status and its workflow transitions are only removed
+   * once that has been saved, so a failed save leaves nothing on a missing status.
+   */
+  onConfirmRemoval(): void {
+    if (!this.pendingRemoval) return;
+
+    if (!this.replacementStatusId) {
+      this.removalError = 'Choose a status to move the orders to.';
+      return;
+    }
+
+    const status = this.pendingRemoval;
+    if (this.workOrderService.replaceStatus(status.id, this.replacementStatusId, () => this.deleteStatus(status))) {
+      this.onCancelRemoval();
+    }
+  }
+
+  onCancelRemoval(): void {
+    this.pendingRemoval = null;
+    this.replacementStatusId = null;
+    this.removalError = null;
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+
+  private deleteStatus(status: StatusDefinition): void {
+    if (this.statusConfigService.deleteStatus(status.id)) {
+      this.statusWorkflowService.forgetStatus(status.id);
+    }
+  }
+
+  private isLabelTaken(label: string, exceptStatusId?: string): boolean {
+    return this.statuses().some(status =>
+      status.id !== exceptStatusId && status.label.toLowerCase() === label.toLowerCase()
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { StatusWorkflowPanel } from './status-workflow-panel';
+import { DEFAULT_STATUS_WORKFLOW, StatusWorkflowService } from '../../services/status-workflow-service/status-workflow.service';
+
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('StatusWorkflowPanel', () => {
+  let component: StatusWorkflowPanel;
+  let fixture: ComponentFixture<StatusWorkflowPanel>;
+
+  const getCheckbox = (label: string): HTMLInputElement =>
+    fixture.nativeElement.querySelector(`input[aria-label="${label}"]`);
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [StatusWorkflowPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(StatusWorkflowPanel);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the configured transitions without a row or column for blocked statuses', () => {
+    expect(getCheckbox('Open to In Progress').checked).toBe(true);
+    expect(getCheckbox('Completed to Open').checked).toBe(false);
+    expect(getCheckbox('Open to Open')).toBeNull();
+    expect(fixture.nativeElement.querySelector('input[aria-label$="Blocked"]')).toBeNull();
+  });
+
+  it('should only save the edited transitions on submit', async () => {
+    const statusWorkflowService = TestBed.inject(StatusWorkflowService);
+
+    getCheckbox('Completed to Open').click();
+    getCheckbox('Open to In Progress').click();
+    await fixture.whenStable();
+    expect(statusWorkflowService.workflow()).toEqual(DEFAULT_STATUS_WORKFLOW);
+
+    component.onSubmit();
+    const { transitions } = statusWorkflowService.workflow();
+    expect(transitions).toContainEqual({ from: WorkOrderStatusEnum.COMPLETED, to: WorkOrderStatusEnum.OPEN });
+    expect(transitions).not.toContainEqual({ from: WorkOrderStatusEnum.OPEN, to: WorkOrderStatusEnum.IN_PROGRESS });
+  });
+
+  it('should reset the matrix to the default workflow', async () => {
+    getCheckbox('Open to In Progress').click();
+    await fixture.whenStable();
+    component.resetToDefaults();
+    await fixture.whenStable();
+
+    expect(component.transitions()).toEqual(DEFAULT_STATUS_WORKFLOW.transitions);
+    expect(getCheckbox('Open to In Progress').checked).toBe(true);
+  });
+});
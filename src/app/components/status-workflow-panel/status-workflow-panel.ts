@@ -0,0 +1,75 @@
+import { Component, ElementRef, HostListener, inject, signal, ViewChild } from '@angular/core';
+
+import { DEFAULT_STATUS_WORKFLOW, StatusWorkflowService } from '../../services/status-workflow-service/status-workflow.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import StatusTransition from '../../models/status-transition';
+import { StatusCategoryEnum } from '../../enums/status-category';
+
+@Component({
+  selector: 'app-status-workflow-panel',
+  imports: [
+    BaseModal
+  ],
+  templateUrl: './status-workflow-panel.html',
+  styleUrl: './status-workflow-panel.scss',
+})
+export class StatusWorkflowPanel {
+  @ViewChild('firstElement') firstElement!: ElementRef<HTMLButtonElement>;
+  @ViewChild('lastElement') lastElement!: ElementRef<HTMLButtonElement>;
+
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly modalService: ModalService = inject(ModalService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  public isClosing: boolean = false;
+
+  // Blocking and unblocking follow fixed rules, so statuses of the blocked category have no row or column here.
+  readonly statusOptions = this.statusConfigService.statusOptions()
+    .filter(option => option.category !== StatusCategoryEnum.BLOCKED);
+
+  // WHAT: The transitions being edited; only saved on submit.
+  readonly transitions = signal<StatusTransition[]>(this.statusWorkflowService.workflow().transitions);
+
+  /** * WHAT: Prevents the user from tabbing out of the modal.
+   * HOW: Cycles focus back to the first element once the last one is reached.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Tab' && document.activeElement === this.lastElement.nativeElement && !event.shiftKey) {
+      this.firstElement.nativeElement.focus();
+      event.preventDefault();
+    }
+  }
+
+  isAllowed(from: string, to: string): boolean {
+    return this.transitions().some(transition => transition.from === from && transition.to === to);
+  }
+
+  setAllowed(from: string, to: string, allowed: boolean): void {
+    this.transitions.update(transitions => [
+      ...transitions.filter(transition => transition.from !== from || transition.to !== to),
+      ...(allowed ? [{ from, to }] : []),
+    ]);
+  }
+
+  resetToDefaults(): void {
+    this.transitions.set(DEFAULT_STATUS_WORKFLOW.transitions);
+  }
+
+  onSubmit(): void {
+    this.statusWorkflowService.setWorkflow({ transitions: this.transitions() });
+    this.closePanel();
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SyncConflictAlert } from './sync-conflict-alert';
+
+describe('SyncConflictAlert', () => {
+  let component: SyncConflictAlert;
+  let fixture: ComponentFixture<SyncConflictAlert>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SyncConflictAlert]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SyncConflictAlert);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,42 @@
+import { Component, computed, inject } from '@angular/core';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
+import WorkOrder from '../../models/work-order';
+import SyncConflict from '../../models/sync-conflict';
+
+@Component({
+  selector: 'app-sync-conflict-alert',
+  templateUrl: './sync-conflict-alert.html',
+  styleUrl: './sync-conflict-alert.scss',
+})
+export class SyncConflictAlert {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  readonly conflicts = this.workOrderService.conflicts;
+  readonly conflict = computed(() => this.conflicts()[0] ?? null);
+
+  getOrderName(conflict: SyncConflict): string {
+    return (conflict.local ?? conflict.remote)?.name ?? conflict.orderId;
+  }
+
+  /** * WHAT: One-line summary of a version of the order for the comparison.
+   * HOW: A missing version means the order was deleted on that side.
+   */
+  describe(order: WorkOrder | null): string {
+    if (!order) return 'deleted';
+
+    const progress = order.percentComplete === undefined ? '' : `, ${order.percentComplete}%`;
+    return `${order.startDate} – ${order.endDate}, ${this.statusConfigService.getLabel(order.status)}${progress}`;
+  }
+
+  keepMine(conflict: SyncConflict): void {
+    this.workOrderService.resolveConflict(conflict, true);
+  }
+
+  useTheirs(conflict: SyncConflict): void {
+    this.workOrderService.resolveConflict(conflict, false);
+  }
+}
@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+
+import { TimelineView } from './timeline-view';
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ToastService } from '../../services/toast-service/toast.service';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('TimelineView', () => {
+  let component: TimelineView;
+  let fixture: ComponentFixture<TimelineView>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TimelineView],
+      providers: [provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TimelineView);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should default to the month zoom without a query param', () => {
+    expect(component.zoom()).toBe(ZoomLevelEnum.MONTH);
+    expect(component.visibleFrom()).toBeNull();
+  });
+
+  it('should restore zoom and visible window from the URL', async () => {
+    await TestBed.inject(Router).navigateByUrl('/?zoom=week&from=2026-09-01');
+
+    expect(component.zoom()).toBe(ZoomLevelEnum.WEEK);
+    expect(component.visibleFrom()).toBe('2026-09-01');
+  });
+
+  it('should ignore zoom values that are not a level name', async () => {
+    const router = TestBed.inject(Router);
+
+    await router.navigateByUrl('/?zoom=1');
+    expect(component.zoom()).toBe(ZoomLevelEnum.MONTH);
+
+    await router.navigateByUrl('/?zoom=quarter');
+    expect(component.zoom()).toBe(ZoomLevelEnum.QUARTER);
+  });
+
+  it('should label a single-order bulk status change in the singular', () => {
+    const workOrderService = TestBed.inject(WorkOrderService);
+    const openOrder = workOrderService.orders().find(order => order.status === WorkOrderStatusEnum.OPEN)!;
+
+    component.selectedOrderIds.set(new Set([openOrder.id]));
+    component.onBulkSetStatus({ status: WorkOrderStatusEnum.IN_PROGRESS });
+
+    expect(workOrderService.undo()?.label).toBe('Change the status of 1 order');
+  });
+
+  it('should not suggest a status for a progress update that was not saved', () => {
+    const workOrderService = TestBed.inject(WorkOrderService);
+    const toastService = TestBed.inject(ToastService);
+    const activeOrder = workOrderService.orders().find(order => order.status === WorkOrderStatusEnum.IN_PROGRESS)!;
+    workOrderService.orders.update(orders => orders.filter(order => order.id !== activeOrder.id));
+
+    component.onUpdateProgress({ ...activeOrder, percentComplete: 100 });
+
+    expect(toastService.toasts()).toEqual([]);
+  });
+});
@@ -0,0 +1,436 @@
+import { Component, computed, effect, inject, signal, untracked } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, NavigationEnd, ParamMap, Router } from '@angular/router';
+import { filter, map, startWith } from 'rxjs';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+import { ToastService } from '../../services/toast-service/toast.service';
+import { RescheduleCascadeService } from '../../services/reschedule-cascade-service/reschedule-cascade.service';
+import { TimelineFilterService } from '../../services/timeline-filter-service/timeline-filter.service';
+import { TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { BulkEditService } from '../../services/bulk-edit-service/bulk-edit.service';
+import { WorkOrderProgressService } from '../../services/work-order-progress-service/work-order-progress.service';
+import { StatusWorkflowService } from '../../services/status-workflow-service/status-workflow.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
+import { ZoomSelector } from '../zoom-selector/zoom-selector';
+import { WorkOrderPanel } from '../work-order-panel/work-order-panel';
+import { WorkCenterPanel } from '../work-center-panel/work-center-panel';
+import { WorkingCalendarPanel } from '../working-calendar-panel/working-calendar-panel';
+import { HealthSettingsPanel } from '../health-settings-panel/health-settings-panel';
+import { StatusWorkflowPanel } from '../status-workflow-panel/status-workflow-panel';
+import { StatusSettingsPanel } from '../status-settings-panel/status-settings-panel';
+import { Timeline } from '../timeline/timeline';
+import { FilterBar } from '../filter-bar/filter-bar';
+import { BulkActionBar } from '../bulk-action-bar/bulk-action-bar';
+import { CascadePreview } from '../cascade-preview/cascade-preview';
+import { ScheduleTransferPanel } from '../schedule-transfer-panel/schedule-transfer-panel';
+
+import WorkOrder from '../../models/work-order';
+import WorkOrderChange from '../../models/work-order-change';
+import TimelineFilter from '../../models/timeline-filter';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+@Component({
+  selector: 'app-timeline-view',
+  imports: [ZoomSelector, Timeline, FilterBar, BulkActionBar],
+  templateUrl: './timeline-view.html',
+  styleUrl: './timeline-view.scss',
+})
+export class TimelineView {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly modalService: ModalService = inject(ModalService);
+  private readonly toastService: ToastService = inject(ToastService);
+  private readonly rescheduleCascadeService: RescheduleCascadeService = inject(RescheduleCascadeService);
+  private readonly timelineFilterService: TimelineFilterService = inject(TimelineFilterService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly bulkEditService: BulkEditService = inject(BulkEditService);
+  private readonly workOrderProgressService: WorkOrderProgressService = inject(WorkOrderProgressService);
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+  private readonly router: Router = inject(Router);
+  private readonly route: ActivatedRoute = inject(ActivatedRoute);
+
+  readonly workCenters = this.workOrderService.activeWorkCenters;
+  readonly orders = this.workOrderService.orders;
+  readonly statuses = this.statusConfigService.statuses;
+
+  readonly filter = this.timelineFilterService.filter;
+  readonly isFilterActive = this.timelineFilterService.isActive;
+
+  // WHAT: Timeline inputs derived from the filter bar.
+  // HOW: Non-matching orders are either left out or passed along as dimmed, and rows
+  // outside the work center filter are only removed in "hide" mode.
+  readonly matchingOrders = computed(() =>
+    this.orders().filter(order => this.timelineFilterService.matches(order, this.filter()))
+  );
+  readonly timelineOrders = computed(() => this.filter().dimNonMatching ? this.orders() : this.matchingOrders());
+  readonly timelineWorkCenters = computed(() => {
+    const { workCenterIds, dimNonMatching } = this.filter();
+    return dimNonMatching || !workCenterIds.length
+      ? this.workCenters()
+      : this.workCenters().filter(workCenter => workCenterIds.includes(workCenter.id));
+  });
+  readonly dimmedOrderIds = computed(() => {
+    if (!this.filter().dimNonMatching || !this.isFilterActive()) return new Set<string>();
+
+    const matchingIds = new Set(this.matchingOrders().map(order => order.id));
+    return new Set(this.orders().filter(order => !matchingIds.has(order.id)).map(order => order.id));
+  });
+
+  // WHAT: Timescale and visible window, read from the '?zoom=' and '?from=' query params.
+  // HOW: The URL is the source of truth, so reloads, shared links and back/forward
+  // all restore the same view.
+  readonly zoom = toSignal(
+    this.route.queryParamMap.pipe(map(params => this.readZoom(params))),
+    { requireSync: true }
+  );
+  readonly visibleFrom = toSignal(
+    this.route.queryParamMap.pipe(map(params => this.readVisibleFrom(params))),
+    { requireSync: true }
+  );
+
+  // WHAT: Id of the order addressed by '/orders/:id', or null on '/timeline'.
+  // HOW: The child routes are componentless, so the id is read from the snapshot after each navigation.
+  readonly selectedOrderId = toSignal(
+    this.router.events.pipe(
+      filter(event => event instanceof NavigationEnd),
+      startWith(null),
+      map(() => this.route.snapshot.firstChild?.paramMap.get('id') ?? null)
+    ),
+    { requireSync: true }
+  );
+
+  // WHAT: "Push later orders" scheduling mode.
+  // HOW: When enabled, edits and drops that collide with later or dependent orders
+  // are allowed and those orders are shifted forward after a preview.
+  pushLaterOrders = signal(false);
+
+  // WHAT: Toggles the utilization heatmap strip under each timeline row.
+  showUtilization = signal(false);
+
+  // WHAT: Orders picked for bulk actions on the timeline.
+  // HOW: Only ids are kept; 'selectedOrders' resolves them against the current schedule,
+  // so deleted or filtered-out orders silently drop out of the selection.
+  readonly selectedOrderIds = signal<ReadonlySet<string>>(new Set());
+  readonly selectedOrders = computed(() =>
+    this.timelineOrders().filter(order => this.selectedOrderIds().has(order.id))
+  );
+
+  private openedOrderId: string | null = null;
+
+  constructor() {
+    // WHAT: Keeps the WorkOrderPanel in step with the '/orders/:id' route.
+    // HOW: Waits for the schedule to load, opens the panel for a newly selected order and
+    // closes it when the route is left (e.g. via the browser's back button).
+    effect(() => {
+      const orderId = this.selectedOrderId();
+      if (this.workOrderService.loading() || this.workOrderService.error()) return;
+
+      untracked(() => this.syncOrderPanel(orderId));
+    });
+  }
+
+  /** * WHAT: Launches the creation flow for a new work order.
+   * HOW: Opens the dynamic WorkOrderPanel with context-specific data and
+   * subscribes to the result to add a new record to the centralized state.
+   * In the Hour and Shift views the clicked time is pre-filled as well.
+   */
+  openCreatePanel(workCenterId: string, date: Date): void {
+    this.modalService
+      .open(WorkOrderPanel, {
+        editingOrder: null,
+        workCenterId: workCenterId,
+        initialStartDate: date,
+        initialStartIncludesTime: this.timelineUtilService.isSubDayZoom(this.zoom()),
+      })
+      .subscribe((result: Omit<WorkOrder, 'id'> & { id?: string }) => {
+        if (!result) return;
+        this.workOrderService.addOrder(result);
+      });
+  }
+
+  /** * WHAT: Launches the edit flow for an existing work order.
+   * HOW: Navigates to '/orders/:id' (keeping zoom, window and filter) and lets the
+   * route open the panel, so the selection can be shared and revisited with back/forward.
+   */
+  openEditPanel(order: WorkOrder): void {
+    this.router.navigate(['/orders', order.id], { queryParamsHandling: 'preserve' });
+  }
+
+  /** * WHAT: Opens the work center management panel.
+   * HOW: The panel applies its changes through the WorkOrderService as the user
+   * makes them, so there is no result to handle on close.
+   */
+  openWorkCenterPanel(): void {
+    this.modalService.open(WorkCenterPanel);
+  }
+
+  /** * WHAT: Opens the working calendar settings.
+   * HOW: Calendar changes are saved by the panel as they are made, so there is no result to handle on close.
+   */
+  openWorkingCalendarPanel(): void {
+    this.modalService.open(WorkingCalendarPanel);
+  }
+
+  /** * WHAT: Opens the thresholds of the overdue and at-risk warnings.
+   * HOW: The panel saves the thresholds itself; bars and the header count re-derive their warnings.
+   */
+  openHealthSettingsPanel(): void {
+    this.modalService.open(HealthSettingsPanel);
+  }
+
+  /** * WHAT: Opens the list of order statuses (labels, colors and categories).
+   * HOW: The panel saves every edit itself; bars, filters and the dashboard re-render from the configuration.
+   */
+  openStatusSettingsPanel(): void {
+    this.modalService.open(StatusSettingsPanel);
+  }
+
+  /** * WHAT: Opens the status workflow settings.
+   * HOW: The panel saves the allowed transitions itself, so there is no result to handle on close.
+   */
+  openStatusWorkflowPanel(): void {
+    this.modalService.open(StatusWorkflowPanel);
+  }
+
+  /** * WHAT: Opens the import/export panel.
+   * HOW: Imports are committed by the panel itself through the WorkOrderService,
+   * so there is no result to handle on close.
+   */
+  openScheduleTransferPanel(): void {
+    this.modalService.open(ScheduleTransferPanel);
+  }
+
+  /** * WHAT: Orchestrates order removal from the UI.
+   * HOW: Delegates the deletion to the WorkOrderService, which handles
+   * state updates and persistence, then offers a toast to undo that exact deletion.
+   */
+  onDeleteOrder(orderId: string): void {
+    const entry = this.workOrderService.deleteOrder(orderId);
+    if (!entry) return;
+
+    this.toastService.show(`Deleted "${entry.changes[0].before?.name}".`, {
+      actionLabel: 'Undo',
+      action: () => this.workOrderService.undo(entry.id),
+    });
+  }
+
+  onSelectionChange(selectedOrderIds: Set<string>): void {
+    this.selectedOrderIds.set(selectedOrderIds);
+  }
+
+  clearSelection(): void {
+    this.selectedOrderIds.set(new Set());
+  }
+
+  /** * WHAT: Gives the whole selection the same status as a single update.
+   * HOW: Orders the status workflow does not allow to move to that status are left
+   * unchanged and listed in a toast; all the others are committed together.
+   */
+  onBulkSetStatus({ status, blockedReason }: { status: string; blockedReason?: string }): void {
+    const editedOrders = this.selectedOrders().map(order => ({
+      original: order,
+      edited: { ...order, status, ...(blockedReason === undefined ? {} : { blockedReason }) },
+    }));
+    const accepted = editedOrders.filter(({ original, edited }) => !this.statusWorkflowService.validateChange(original, edited));
+    const rejected = editedOrders.filter(({ original, edited }) => this.statusWorkflowService.validateChange(original, edited));
+
+    if (accepted.length) {
+      this.workOrderService.updateOrders(accepted.map(({ edited }) => edited), `Change the status of ${accepted.length} ${accepted.length === 1 ? 'order' : 'orders'}`);
+    }
+
+    if (rejected.length) {
+      this.toastService.show(
+        `${accepted.length} ${accepted.length === 1 ? 'order was' : 'orders were'} set to ${this.statusConfigService.getLabel(status)}. ` +
+        `Not allowed by the status workflow: ${rejected.map(({ original }) => `"${original.name}"`).join(', ')}.`
+      );
+    }
+  }
+
+  onBulkShiftDates({ steps, zoom }: { steps: number; zoom: ZoomLevelEnum }): void {
+    this.applyBulkReschedule('shifted', order => ({
+      ...order,
+      startDate: this.timelineUtilService.shiftIsoDate(order.startDate, zoom, steps),
+      endDate: this.timelineUtilService.shiftIsoDate(order.endDate, zoom, steps),
+    }));
+  }
+
+  onBulkMoveToWorkCenter(workCenterId: string): void {
+    this.applyBulkReschedule('moved', order => ({ ...order, workCenterId }));
+  }
+
+  /** * WHAT: Deletes the whole selection as one undoable change.
+   * HOW: Same flow as a single deletion, including the toast offering to undo it.
+   */
+  onBulkDelete(): void {
+    const entry = this.workOrderService.deleteOrders(this.selectedOrders().map(order => order.id));
+    if (!entry) return;
+
+    this.clearSelection();
+    const deletedCount = entry.changes.filter(change => !change.after).length;
+    this.toastService.show(`Deleted ${deletedCount} ${deletedCount === 1 ? 'order' : 'orders'}.`, {
+      actionLabel: 'Undo',
+      action: () => this.workOrderService.undo(entry.id),
+    });
+  }
+
+  onFilterChange(filter: TimelineFilter): void {
+    this.timelineFilterService.update(filter);
+  }
+
+  clearFilters(): void {
+    this.timelineFilterService.reset();
+  }
+
+  /** * WHAT: Switches the timescale.
+   * HOW: Adds a history entry so the browser's back button returns to the previous zoom.
+   */
+  onZoomChange(zoom: ZoomLevelEnum): void {
+    this.router.navigate([], {
+      queryParams: { zoom: ZoomLevelEnum[zoom].toLowerCase() },
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  /** * WHAT: Mirrors the timeline's scroll position into the URL.
+   * HOW: Replaces the current history entry, so scrolling does not flood the back stack.
+   */
+  onVisibleFromChange(visibleFrom: string): void {
+    this.router.navigate([], {
+      queryParams: { from: visibleFrom },
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+
+  /** * WHAT: Persists a bar that was dragged or resized on the timeline.
+   * HOW: The Timeline has already validated the drop against overlaps (or, in push mode,
+   * against earlier orders only), so the order goes through the same save path as an edit.
+   */
+  onRescheduleOrder(order: WorkOrder): void {
+    this.saveRescheduledOrder(order);
+  }
+
+  /** * WHAT: Saves the progress set with a bar's progress handle.
+   * HOW: Commits it like any edit, then offers the matching status (e.g. Completed at 100%)
+   * in a toast rather than changing the status behind the user's back.
+   */
+  onUpdateProgress(order: WorkOrder): void {
+    if (!this.workOrderService.updateOrder(order)) return;
+
+    const suggestedStatus = this.workOrderProgressService.getSuggestedStatus(order);
+    if (suggestedStatus === null) return;
+
+    this.toastService.show(`"${order.name}" is ${order.percentComplete}% complete.`, {
+      actionLabel: `Mark as ${this.statusConfigService.getLabel(suggestedStatus)}`,
+      action: () => {
+        const currentOrder = this.orders().find(candidate => candidate.id === order.id);
+        if (currentOrder) this.workOrderService.updateOrder({ ...currentOrder, status: suggestedStatus });
+      },
+    });
+  }
+
+  /** * WHAT: Opens or closes the WorkOrderPanel to match the selected order.
+   * HOW: Unknown ids fall back to '/timeline' with a toast. Closing the panel navigates back
+   * to '/timeline' unless the route already moved on, and saves the edit like before.
+   */
+  private syncOrderPanel(orderId: string | null): void {
+    if (orderId === this.openedOrderId) return;
+
+    if (this.openedOrderId) {
+      this.openedOrderId = null;
+      this.modalService.close();
+    }
+    if (!orderId) return;
+
+    const order = this.orders().find(candidate => candidate.id === orderId);
+    if (!order) {
+      this.toastService.show(`Work order "${orderId}" was not found.`);
+      this.router.navigate(['/timeline'], { queryParamsHandling: 'preserve', replaceUrl: true });
+      return;
+    }
+
+    this.openedOrderId = orderId;
+    this.modalService
+      .open(WorkOrderPanel, {
+        editingOrder: order,
+        workCenterId: null,
+        initialStartDate: null,
+        pushLaterOrders: this.pushLaterOrders(),
+      })
+      .subscribe((result: WorkOrder) => {
+        if (this.openedOrderId !== orderId) return;
+
+        this.openedOrderId = null;
+        this.router.navigate(['/timeline'], { queryParamsHandling: 'preserve' });
+        if (result) this.saveRescheduledOrder(result);
+      });
+  }
+
+  /** * WHAT: Saves an edited order, pushing later orders forward when the mode is on.
+   * HOW: Plans the cascade first; if other orders have to move, their before/after dates
+   * are shown in the CascadePreview and the whole set is committed as one update on confirm.
+   */
+  private saveRescheduledOrder(order: WorkOrder): void {
+    if (!this.pushLaterOrders()) {
+      this.workOrderService.updateOrder(order);
+      return;
+    }
+
+    const changes = this.rescheduleCascadeService.planCascade(order);
+    if (changes.length === 1) {
+      this.workOrderService.updateOrder(order);
+      return;
+    }
+
+    this.modalService
+      .open(CascadePreview, { changes })
+      .subscribe((confirmed: boolean) => {
+        if (!confirmed) return;
+        this.workOrderService.updateOrders(
+          changes.map((change: WorkOrderChange) => change.after!),
+          `Reschedule "${order.name}" and push ${changes.length - 1} later orders`
+        );
+      });
+  }
+
+  /** * WHAT: Reschedules the selection as a single update, validated order by order.
+   * HOW: Orders that would exceed a work center's capacity or break a dependency are left
+   * where they are and listed in a toast; all the others are committed together.
+   */
+  private applyBulkReschedule(verb: string, applyEdit: (order: WorkOrder) => WorkOrder): void {
+    const { accepted, rejected } = this.bulkEditService.planUpdate(this.selectedOrders(), applyEdit);
+
+    if (accepted.length) {
+      this.workOrderService.updateOrders(accepted, `${verb[0].toUpperCase()}${verb.slice(1)} ${accepted.length} ${accepted.length === 1 ? 'order' : 'orders'}`);
+    }
+
+    if (rejected.length) {
+      this.toastService.show(
+        `${accepted.length} ${accepted.length === 1 ? 'order was' : 'orders were'} ${verb}. ` +
+        `Not ${verb} because of overlaps or dependencies: ${rejected.map(order => `"${order.name}"`).join(', ')}.`
+      );
+    }
+  }
+
+  /** * WHAT: Reads the zoom level from the URL.
+   * HOW: Only the lowercase level names written by 'onZoomChange' are accepted; anything
+   * else, including the enum's numeric values, falls back to the month view.
+   */
+  private readZoom(params: ParamMap): ZoomLevelEnum {
+    const zoomName = params.get('zoom');
+    const zoom = Object.values(ZoomLevelEnum).find((level): level is ZoomLevelEnum =>
+      typeof level === 'number' && ZoomLevelEnum[level].toLowerCase() === zoomName
+    );
+    return zoom ?? ZoomLevelEnum.MONTH;
+  }
+
+  private readVisibleFrom(params: ParamMap): string | null {
+    const visibleFrom = params.get('from');
+    return visibleFrom && ISO_DATE_PATTERN.test(visibleFrom) ? visibleFrom : null;
+  }
+}
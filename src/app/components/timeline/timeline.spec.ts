@@ -1,6 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { Timeline } from './timeline';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
 
 describe('TimelineGrid', () => {
   let component: Timeline;
@@ -20,4 +21,42 @@ describe('TimelineGrid', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should move the focus between work centers and create orders from the keyboard', async () => {
+    fixture.componentRef.setInput('workCenters', [
+      { id: 'wc-1', name: 'Extrusion Line A' },
+      { id: 'wc-2', name: 'CNC Machine 1' },
+    ]);
+    await fixture.whenStable();
+
+    const element: HTMLElement = fixture.nativeElement;
+    const tabStop = element.querySelector<HTMLElement>('[role="gridcell"][tabindex="0"]')!;
+    expect(tabStop.getAttribute('aria-label')).toContain('Extrusion Line A');
+
+    tabStop.focus();
+    tabStop.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true }));
+    await fixture.whenStable();
+
+    const focusedCell = document.activeElement as HTMLElement;
+    expect(focusedCell.getAttribute('aria-label')).toContain('CNC Machine 1');
+    expect(focusedCell.getAttribute('tabindex')).toBe('0');
+
+    let created: { workCenterId: string; date: Date } | null = null;
+    component.createOrder.subscribe(event => created = event);
+    focusedCell.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+    expect(created!.workCenterId).toBe('wc-2');
+  });
+
+  it('should shade non-working days once per calendar in the day view', async () => {
+    expect(component.getNonWorkingAreas('wc-1')).toEqual([]);
+
+    const dayFixture = TestBed.createComponent(Timeline);
+    dayFixture.componentRef.setInput('zoom', ZoomLevelEnum.DAY);
+    await dayFixture.whenStable();
+
+    const areas = dayFixture.componentInstance.getNonWorkingAreas('wc-1');
+    expect(areas.length).toBeGreaterThan(0);
+    expect(dayFixture.componentInstance.getNonWorkingAreas('wc-2')).toBe(areas);
+  });
 });
@@ -1,17 +1,29 @@
 import {
+  afterNextRender,
   AfterViewInit,
   ChangeDetectorRef,
   Component,
+  computed,
   ElementRef,
   EventEmitter, inject,
+  Injector,
   Input,
-  NgZone, OnChanges, OnInit,
+  NgZone, OnChanges, OnDestroy, OnInit,
   Output,
+  signal,
   SimpleChanges,
   ViewChild
 } from '@angular/core';
 
-import { TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { SHIFT_LENGTH_HOURS, TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { DependencyService } from '../../services/dependency-service/dependency.service';
+import { RescheduleCascadeService } from '../../services/reschedule-cascade-service/reschedule-cascade.service';
+import { WorkingCalendarService } from '../../services/working-calendar-service/working-calendar.service';
+import { UtilizationService } from '../../services/utilization-service/utilization.service';
+import { WorkOrderHealthService } from '../../services/work-order-health-service/work-order-health.service';
+import { PROGRESS_STEP_PERCENT, WorkOrderProgressService } from '../../services/work-order-progress-service/work-order-progress.service';
+import { AnnouncerService } from '../../services/announcer-service/announcer.service';
 
 import { WorkOrderBar } from '../work-order-bar/work-order-bar';
 
@@ -19,7 +31,18 @@ import WorkCenter from '../../models/work-center';
 import WorkOrder from '../../models/work-order';
 import TimelineColumn from '../../models/timeline-column';
 import BarPosition from '../../models/bar-position';
+import BarDragEvent from '../../models/bar-drag-event';
+import BarDragState from '../../models/bar-drag-state';
+import LaneLayout from '../../models/lane-layout';
+import DependencyArrow from '../../models/dependency-arrow';
+import UtilizationCell from '../../models/utilization-cell';
+import WorkOrderHealthWarning from '../../models/work-order-health-warning';
+import SelectionBox from '../../models/selection-box';
+import GridFocusStop from '../../models/grid-focus-stop';
+import WorkingCalendar from '../../models/working-calendar';
 import { ZoomLevelEnum } from '../../enums/zoom-level';
+import { BarDragModeEnum } from '../../enums/bar-drag-mode';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
 
 @Component({
   selector: 'app-timeline',
@@ -29,51 +52,147 @@ import { ZoomLevelEnum } from '../../enums/zoom-level';
   templateUrl: './timeline.html',
   styleUrl: './timeline.scss',
 })
-export class Timeline implements OnInit, OnChanges, AfterViewInit {
+export class Timeline implements OnInit, OnChanges, AfterViewInit, OnDestroy {
   @Input() zoom: ZoomLevelEnum = ZoomLevelEnum.MONTH;
   @Input() workCenters: WorkCenter[] = [];
   @Input() orders: WorkOrder[] = [];
+  @Input() pushLaterOrders = false;
+  @Input() dimmedOrderIds: Set<string> = new Set();
+  @Input() visibleFrom: string | null = null;
+  @Input() showUtilization = false;
+  @Input() selectedOrderIds: ReadonlySet<string> = new Set();
 
   @Output() createOrder = new EventEmitter<{ workCenterId: string; date: Date }>();
   @Output() editOrder = new EventEmitter<WorkOrder>();
   @Output() deleteOrder = new EventEmitter<string>();
+  @Output() rescheduleOrder = new EventEmitter<WorkOrder>();
+  @Output() updateProgress = new EventEmitter<WorkOrder>();
+  @Output() visibleFromChange = new EventEmitter<string>();
+  @Output() selectionChange = new EventEmitter<Set<string>>();
 
   @ViewChild('scrollContainer') scrollContainerElement!: ElementRef<HTMLDivElement>;
+  @ViewChild('rowsContainer') rowsContainerElement!: ElementRef<HTMLDivElement>;
 
   private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly dependencyService: DependencyService = inject(DependencyService);
+  private readonly rescheduleCascadeService: RescheduleCascadeService = inject(RescheduleCascadeService);
+  private readonly workingCalendarService: WorkingCalendarService = inject(WorkingCalendarService);
+  private readonly utilizationService: UtilizationService = inject(UtilizationService);
+  private readonly workOrderHealthService: WorkOrderHealthService = inject(WorkOrderHealthService);
+  private readonly announcerService: AnnouncerService = inject(AnnouncerService);
+  private readonly workOrderProgressService: WorkOrderProgressService = inject(WorkOrderProgressService);
   private readonly ngZone: NgZone = inject(NgZone);
   private readonly changeDetector: ChangeDetectorRef = inject(ChangeDetectorRef);
+  private readonly injector: Injector = inject(Injector);
 
   columns: TimelineColumn[] = [];
   columnPixelWidth = 110;
+  laneHeight = 48;
+  utilizationStripHeight = 16;
+
+  // Bars narrower than this drop their status pill and tighten their padding.
+  readonly compactBarPixelWidth = 140;
+
+  readonly currentPeriodLabels: Record<ZoomLevelEnum, string> = {
+    [ZoomLevelEnum.HOUR]: 'hour',
+    [ZoomLevelEnum.SHIFT]: 'shift',
+    [ZoomLevelEnum.DAY]: 'day',
+    [ZoomLevelEnum.WEEK]: 'week',
+    [ZoomLevelEnum.MONTH]: 'month',
+    [ZoomLevelEnum.QUARTER]: 'quarter',
+    [ZoomLevelEnum.YEAR]: 'year',
+  };
+
+  dragState: BarDragState | null = null;
+  dropRejectionMessage: string | null = null;
+  selectionBox: SelectionBox | null = null;
 
   private timelineRangeStartDate!: Date;
   private timelineRangeEndDate!: Date;
-  private isScrollListenerAttached = false;
 
-  protected readonly ZoomLevelEnum = ZoomLevelEnum;
+  // WHAT: Signal mirror of the loaded range and zoom, refreshed by 'publishRange'.
+  // HOW: Lets computed values depend on the range, which the scroll handler updates outside Angular's zone.
+  private readonly timelineRange = signal<{ start: Date; end: Date; zoom: ZoomLevelEnum } | null>(null);
+
+  // WHAT: Shaded areas for the weekends and holidays of every calendar in use.
+  // HOW: Keyed by calendar, so rows sharing the default calendar share one walk over the range;
+  // recomputed only when the range, the default calendar or a work center override changes.
+  private readonly nonWorkingAreasByCalendar = computed(() => {
+    const range = this.timelineRange();
+    const areasByCalendar = new Map<WorkingCalendar, BarPosition[]>();
+    if (!range || (range.zoom !== ZoomLevelEnum.DAY && range.zoom !== ZoomLevelEnum.WEEK)) return areasByCalendar;
+
+    const calendars = new Set([
+      this.workingCalendarService.defaultCalendar(),
+      ...this.workOrderService.workCenters().flatMap(workCenter => workCenter.calendar ?? []),
+    ]);
+    const rangeStart = range.start.getTime();
+    const timelineDurationInMs = range.end.getTime() - rangeStart;
+
+    for (const calendar of calendars) {
+      areasByCalendar.set(calendar, this.workingCalendarService
+        .getNonWorkingSpans(range.start, range.end, calendar)
+        .map(span => ({
+          left: ((span.start.getTime() - rangeStart) / timelineDurationInMs) * 100,
+          width: ((span.end.getTime() - span.start.getTime()) / timelineDurationInMs) * 100,
+        })));
+    }
+
+    return areasByCalendar;
+  });
+  private isScrollListenerAttached = false;
+  private detachDragListeners: (() => void) | null = null;
+  private detachSelectionListeners: (() => void) | null = null;
+  private suppressColumnClick = false;
+  private focusedStop: GridFocusStop | null = null;
+  private dropRejectionTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private visibleFromReportTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private lastReportedVisibleFrom: string | null = null;
+
+  private readonly dragActivationThreshold = 4;
+  private readonly dropRejectionDurationMs = 4000;
+  private readonly visibleFromReportDelayMs = 300;
 
   ngOnInit(): void {
-    this.rebuildTimeline();
+    this.rebuildTimeline(this.getVisibleFromDate() ?? undefined);
   }
 
+  /** * WHAT: Reacts to zoom changes and to a new requested window (e.g. browser back).
+   * HOW: A 'visibleFrom' that this component reported itself is ignored, so writing
+   * the scroll position into the URL never scrolls the grid again.
+   */
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['zoom'] && !changes['zoom'].firstChange) {
-      this.rebuildTimeline();
+    const hasZoomChanged = changes['zoom'] && !changes['zoom'].firstChange;
+    const hasVisibleFromChanged = changes['visibleFrom'] && !changes['visibleFrom'].firstChange &&
+      this.visibleFrom !== this.lastReportedVisibleFrom;
+
+    if (hasZoomChanged || hasVisibleFromChanged) {
+      this.restoreVisibleWindow(!!hasZoomChanged);
     }
   }
 
   ngAfterViewInit(): void {
-    this.scrollToCurrentTimePeriod();
+    const visibleFromDate = this.getVisibleFromDate();
+    if (visibleFromDate) this.scrollToDate(visibleFromDate);
+    else this.scrollToCurrentTimePeriod();
+
     this.attachInfiniteScrollListener();
   }
 
+  ngOnDestroy(): void {
+    this.detachDragListeners?.();
+    this.detachSelectionListeners?.();
+    if (this.dropRejectionTimeoutId) clearTimeout(this.dropRejectionTimeoutId);
+    if (this.visibleFromReportTimeoutId) clearTimeout(this.visibleFromReportTimeoutId);
+  }
+
   /** * WHAT: Rebuilds the timeline grid whenever the zoom level or data changes.
-   * HOW: Calculates the initial date range and triggers the column generation
+   * HOW: Calculates the initial date range around 'anchor' and triggers the column generation
    * logic to ensure the UI scale matches the selected Timescale (Day/Week/Month).
    */
-  private rebuildTimeline(): void {
-    const { start, end } = this.timelineUtilService.getInitialRange(this.zoom);
+  private rebuildTimeline(anchor?: Date): void {
+    const { start, end } = this.timelineUtilService.getInitialRange(this.zoom, anchor);
     this.timelineRangeStartDate = start;
     this.timelineRangeEndDate = end;
 
@@ -82,6 +201,11 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
       this.timelineRangeEndDate,
       this.zoom
     );
+    this.publishRange();
+  }
+
+  private publishRange(): void {
+    this.timelineRange.set({ start: this.timelineRangeStartDate, end: this.timelineRangeEndDate, zoom: this.zoom });
   }
 
   /** * WHAT: Centers the current time period in the viewport.
@@ -101,6 +225,62 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
     }
   }
 
+  /** * WHAT: Brings the requested window ('visibleFrom', or today) into view.
+   * HOW: Rebuilds the range when the zoom changed or the date lies outside the loaded
+   * columns, then scrolls once the new columns have been rendered.
+   */
+  private restoreVisibleWindow(forceRebuild: boolean): void {
+    const visibleFromDate = this.getVisibleFromDate();
+    const isOutsideRange = !!visibleFromDate &&
+      (visibleFromDate < this.timelineRangeStartDate || visibleFromDate > this.timelineRangeEndDate);
+
+    if (forceRebuild || isOutsideRange) {
+      this.rebuildTimeline(visibleFromDate ?? undefined);
+    }
+
+    afterNextRender(() => {
+      if (visibleFromDate) this.scrollToDate(visibleFromDate);
+      else this.scrollToCurrentTimePeriod();
+    }, { injector: this.injector });
+  }
+
+  /** * WHAT: Aligns the column containing 'date' with the left edge of the viewport.
+   * HOW: Picks the last column starting on or before the date.
+   */
+  private scrollToDate(date: Date): void {
+    if (!this.scrollContainerElement) return;
+
+    this.scrollContainerElement.nativeElement.scrollLeft = this.getColumnIndexForDate(date) * this.columnPixelWidth;
+  }
+
+  private getColumnIndexForDate(date: Date): number {
+    return this.columns.reduce((lastIndex, column, index) => column.date <= date ? index : lastIndex, 0);
+  }
+
+  private getVisibleFromDate(): Date | null {
+    return this.visibleFrom ? this.timelineUtilService.parseIsoDate(this.visibleFrom) : null;
+  }
+
+  /** * WHAT: Reports the date at the left edge of the viewport once scrolling settles.
+   * HOW: Debounced so a fling produces one event, and only emitted when the leftmost
+   * column actually changed.
+   */
+  private scheduleVisibleFromReport(): void {
+    if (this.visibleFromReportTimeoutId) clearTimeout(this.visibleFromReportTimeoutId);
+
+    this.visibleFromReportTimeoutId = setTimeout(() => {
+      const scrollElement = this.scrollContainerElement.nativeElement;
+      const leftmostColumn = this.columns[Math.floor(scrollElement.scrollLeft / this.columnPixelWidth)];
+      if (!leftmostColumn) return;
+
+      const visibleFrom = this.timelineUtilService.formatIsoValue(leftmostColumn.date, this.timelineUtilService.isSubDayZoom(this.zoom));
+      if (visibleFrom === this.lastReportedVisibleFrom) return;
+
+      this.lastReportedVisibleFrom = visibleFrom;
+      this.ngZone.run(() => this.visibleFromChange.emit(visibleFrom));
+    }, this.visibleFromReportDelayMs);
+  }
+
   /**
    * Attaches the scroll listener outside of Angular's zone to optimize performance.
    */
@@ -138,6 +318,8 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
         this.zoom
       );
 
+      this.publishRange();
+
       const newTotalWidth = this.columns.length * this.columnPixelWidth;
 
       scrollElement.scrollLeft += (newTotalWidth - previousTotalWidth);
@@ -157,9 +339,12 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
         this.timelineRangeEndDate,
         this.zoom
       );
+      this.publishRange();
 
       this.ngZone.run(() => this.changeDetector.markForCheck());
     }
+
+    this.scheduleVisibleFromReport();
   }
 
   /**
@@ -174,16 +359,153 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
     const rangeStart = this.timelineRangeStartDate.getTime();
     const rangeEnd = this.timelineRangeEndDate.getTime();
 
-    return this.orders.filter(order => {
+    return this.getDisplayedOrders().filter(order => {
       if (order.workCenterId !== workCenterId) return false;
 
-      const start = new Date(order.startDate).getTime();
-      const end = new Date(order.endDate).getTime();
+      const start = this.timelineUtilService.parseIsoDate(order.startDate).getTime();
+      const end = this.timelineUtilService.parseIsoDate(order.endDate).getTime();
 
       return end > rangeStart && start < rangeEnd;
     });
   }
 
+  /** * WHAT: Splits a row's orders into parallel sub-lanes.
+   * HOW: Delegates the greedy lane assignment to the timeline service; the row grows
+   * by one 'laneHeight' per lane so overlapping orders never cover each other.
+   */
+  getLaneLayout(rowOrders: WorkOrder[]): LaneLayout {
+    return this.timelineUtilService.assignLanes(rowOrders);
+  }
+
+  getRowHeight(workCenterId: string): number {
+    const laneCount = this.getLaneLayout(this.getVisibleOrdersForWorkCenter(workCenterId)).laneCount;
+    return laneCount * this.laneHeight + this.getUtilizationStripHeight();
+  }
+
+  getUtilizationStripHeight(): number {
+    return this.showUtilization ? this.utilizationStripHeight : 0;
+  }
+
+  /** * WHAT: Heatmap cells drawn in the utilization strip under a work center row.
+   * HOW: One cell per generated column; the dragged bar's preview is included so the strip follows the drag.
+   */
+  getUtilizationCells(workCenter: WorkCenter): UtilizationCell[] {
+    return this.utilizationService.getColumnUtilization(
+      this.getVisibleOrdersForWorkCenter(workCenter.id),
+      this.columns,
+      this.zoom,
+      workCenter.capacity
+    );
+  }
+
+  /** * WHAT: Booked share of the whole loaded date range, shown next to the work center name.
+   * HOW: Same calculation as the heatmap cells, over the range instead of a single column.
+   */
+  getTotalUtilization(workCenter: WorkCenter): number {
+    return Math.round(this.utilizationService.getUtilization(
+      this.getVisibleOrdersForWorkCenter(workCenter.id),
+      this.timelineRangeStartDate,
+      this.timelineRangeEndDate,
+      workCenter.capacity
+    ));
+  }
+
+  getHealthWarnings(workOrder: WorkOrder): WorkOrderHealthWarning[] {
+    return this.workOrderHealthService.getWarnings(workOrder);
+  }
+
+  hasViolatedDependency(workOrder: WorkOrder): boolean {
+    return this.dependencyService.hasViolatedDependency(workOrder, this.getDisplayedOrders());
+  }
+
+  /** * WHAT: Builds the connector arrows drawn between dependent bars.
+   * HOW: Walks the rows top to bottom to get each visible bar's pixel anchors (row offset +
+   * lane + percentage position), then links predecessor end (or start, for start-to-start)
+   * to successor start. Links to orders outside the rendered rows or range are skipped.
+   */
+  getDependencyArrows(): DependencyArrow[] {
+    const barAnchors = this.getBarAnchors();
+    const displayedOrders = this.getDisplayedOrders();
+    const arrows: DependencyArrow[] = [];
+
+    for (const successor of displayedOrders) {
+      for (const dependency of successor.dependencies ?? []) {
+        const predecessor = displayedOrders.find(order => order.id === dependency.predecessorId);
+        const from = barAnchors.get(dependency.predecessorId);
+        const to = barAnchors.get(successor.id);
+        if (!predecessor || !from || !to) continue;
+
+        const fromX = dependency.type === DependencyTypeEnum.START_TO_START ? from.startX : from.endX;
+
+        arrows.push({
+          id: `${dependency.predecessorId}->${successor.id}`,
+          path: this.buildArrowPath(fromX, from.centerY, to.startX, to.centerY),
+          isViolated: !this.dependencyService.isSatisfied(dependency, predecessor, successor),
+        });
+      }
+    }
+
+    return arrows;
+  }
+
+  /** * WHAT: Pixel box of every rendered bar inside the rows container.
+   * HOW: Walks the rows top to bottom (row offset + lane) and converts each bar's
+   * percentage position to pixels. Used by the dependency arrows and the rubber-band selection.
+   */
+  private getBarAnchors(): Map<string, { startX: number; endX: number; top: number; centerY: number }> {
+    const canvasWidth = this.columns.length * this.columnPixelWidth;
+    const barAnchors = new Map<string, { startX: number; endX: number; top: number; centerY: number }>();
+    let rowTop = 0;
+
+    for (const workCenter of this.workCenters) {
+      const rowOrders = this.getVisibleOrdersForWorkCenter(workCenter.id);
+      const laneLayout = this.getLaneLayout(rowOrders);
+
+      for (const workOrder of rowOrders) {
+        const position = this.getWorkOrderBarPosition(workOrder);
+        const top = rowTop + (laneLayout.laneByOrderId.get(workOrder.id) ?? 0) * this.laneHeight;
+
+        barAnchors.set(workOrder.id, {
+          startX: (position.left / 100) * canvasWidth,
+          endX: ((position.left + position.width) / 100) * canvasWidth,
+          top,
+          centerY: top + this.laneHeight / 2,
+        });
+      }
+
+      rowTop += laneLayout.laneCount * this.laneHeight + this.getUtilizationStripHeight();
+    }
+
+    return barAnchors;
+  }
+
+  /** * WHAT: Produces an orthogonal SVG path between two bar anchors.
+   * HOW: Uses a simple elbow when the target lies to the right; otherwise detours along
+   * the lane boundary next to the target so the line does not run through the bars.
+   */
+  private buildArrowPath(fromX: number, fromY: number, toX: number, toY: number): string {
+    const elbowOffset = 8;
+
+    if (toX - elbowOffset >= fromX + elbowOffset) {
+      const elbowX = fromX + elbowOffset;
+      return `M ${fromX} ${fromY} H ${elbowX} V ${toY} H ${toX}`;
+    }
+
+    const detourY = toY >= fromY ? toY - this.laneHeight / 2 : toY + this.laneHeight / 2;
+    return `M ${fromX} ${fromY} H ${fromX + elbowOffset} V ${detourY} H ${toX - elbowOffset} V ${toY} H ${toX}`;
+  }
+
+  /** * WHAT: Returns the orders as they should currently be drawn.
+   * HOW: While a bar is being dragged, swaps the original record for its live
+   * preview so the bar follows the pointer across columns and rows.
+   */
+  private getDisplayedOrders(): WorkOrder[] {
+    if (!this.dragState) return this.orders;
+
+    const { order, previewOrder } = this.dragState;
+    return this.orders.map(existingOrder => existingOrder.id === order.id ? previewOrder : existingOrder);
+  }
+
   /** * WHAT: Determines the visual coordinates for a work order bar.
    * HOW: Calculates the total timeline duration and delegates the math to the
    * timeline service to find the percentage-based 'left' and 'width' relative to the start date.
@@ -201,11 +523,28 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
     );
   }
 
+  /** * WHAT: Shaded areas for the weekends and holidays of a work center's calendar.
+   * HOW: Only drawn in the Day and Week views, where a single day is wide enough to see;
+   * spans are positioned with the same linear math as the bars and looked up per calendar.
+   */
+  getNonWorkingAreas(workCenterId: string): BarPosition[] {
+    return this.nonWorkingAreasByCalendar().get(this.workingCalendarService.getCalendar(workCenterId)) ?? [];
+  }
+
+  isCompactBar(position: BarPosition): boolean {
+    return (position.width / 100) * this.columns.length * this.columnPixelWidth < this.compactBarPixelWidth;
+  }
+
   /** * WHAT: Maps a UI click to a specific date for new order creation.
    * HOW: Calculates the horizontal percentage of the click inside a column and
    * interpolates the exact Date based on the granularity of the current zoom level.
    */
   onColumnClick(workCenter: WorkCenter, column: TimelineColumn, event: MouseEvent): void {
+    if (this.suppressColumnClick) {
+      this.suppressColumnClick = false;
+      return;
+    }
+
     const target = event.target as HTMLElement;
     if (target.closest('app-work-order-bar') || target.closest('.work-order')) return;
 
@@ -220,11 +559,452 @@ export class Timeline implements OnInit, OnChanges, AfterViewInit {
       const calculatedDayOfMonth = Math.max(1, Math.floor(horizontalPercentage * totalDaysInMonth) + 1);
       selectedDate.setDate(calculatedDayOfMonth);
     }
+    else if (this.zoom === ZoomLevelEnum.QUARTER || this.zoom === ZoomLevelEnum.YEAR) {
+      const periodEnd = new Date(selectedDate);
+      periodEnd.setMonth(periodEnd.getMonth() + this.timelineUtilService.getMonthsPerColumn(this.zoom));
+      const totalDaysInPeriod = Math.round((periodEnd.getTime() - selectedDate.getTime()) / (1000 * 60 * 60 * 24));
+      selectedDate.setDate(selectedDate.getDate() + Math.floor(horizontalPercentage * totalDaysInPeriod));
+    }
     else if (this.zoom === ZoomLevelEnum.WEEK) {
       const daysToAdd = Math.floor(horizontalPercentage * 7);
       selectedDate.setDate(selectedDate.getDate() + daysToAdd);
     }
+    else if (this.zoom === ZoomLevelEnum.SHIFT) {
+      const hoursToAdd = Math.floor(horizontalPercentage * SHIFT_LENGTH_HOURS);
+      selectedDate.setHours(selectedDate.getHours() + hoursToAdd);
+    }
 
     this.createOrder.emit({ workCenterId: workCenter.id, date: selectedDate });
   }
+
+  /** * WHAT: Begins tracking a move or edge-resize gesture started on a bar.
+   * HOW: Stores the original order and pointer origin, then attaches document-level
+   * pointer listeners outside Angular's zone so the gesture survives row changes.
+   */
+  onBarDragStart(order: WorkOrder, dragEvent: BarDragEvent): void {
+    const { shiftKey, ctrlKey, metaKey } = dragEvent.pointerEvent;
+    if (shiftKey || ctrlKey || metaKey) {
+      this.toggleOrderSelection(order.id);
+      return;
+    }
+
+    this.detachDragListeners?.();
+
+    this.dragState = {
+      order,
+      mode: dragEvent.mode,
+      pointerStartX: dragEvent.pointerEvent.clientX,
+      previewOrder: order,
+      hasMoved: false,
+    };
+
+    this.ngZone.runOutsideAngular(() => {
+      const handlePointerMove = (event: PointerEvent) => this.handleBarDragMove(event);
+      const handlePointerUp = () => this.handleBarDragEnd();
+      const handlePointerCancel = () => this.cancelBarDrag();
+
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerCancel);
+
+      this.detachDragListeners = () => {
+        document.removeEventListener('pointermove', handlePointerMove);
+        document.removeEventListener('pointerup', handlePointerUp);
+        document.removeEventListener('pointercancel', handlePointerCancel);
+        this.detachDragListeners = null;
+      };
+    });
+  }
+
+  /** * WHAT: Updates the live preview while a bar is dragged.
+   * HOW: Converts the horizontal pointer delta into whole timescale steps (one column
+   * per step) and, for moves, resolves the work center row currently under the pointer.
+   * Progress drags turn the delta into a share of the bar width instead.
+   */
+  private handleBarDragMove(event: PointerEvent): void {
+    if (!this.dragState) return;
+
+    const { order, mode, pointerStartX } = this.dragState;
+    const deltaX = event.clientX - pointerStartX;
+
+    if (!this.dragState.hasMoved && Math.abs(deltaX) < this.dragActivationThreshold) return;
+    this.dragState.hasMoved = true;
+
+    const steps = Math.round(deltaX / this.columnPixelWidth);
+    const previewOrder: WorkOrder = { ...order };
+
+    switch (mode) {
+      case BarDragModeEnum.MOVE:
+        previewOrder.startDate = this.timelineUtilService.shiftIsoDate(order.startDate, this.zoom, steps);
+        previewOrder.endDate = this.timelineUtilService.shiftIsoDate(order.endDate, this.zoom, steps);
+        previewOrder.workCenterId = this.getWorkCenterIdAtPoint(event.clientX, event.clientY) ?? order.workCenterId;
+        break;
+      case BarDragModeEnum.RESIZE_START:
+        previewOrder.startDate = this.timelineUtilService.shiftIsoDate(order.startDate, this.zoom, steps);
+        break;
+      case BarDragModeEnum.RESIZE_END:
+        previewOrder.endDate = this.timelineUtilService.shiftIsoDate(order.endDate, this.zoom, steps);
+        break;
+      case BarDragModeEnum.PROGRESS: {
+        const barPixelWidth = (this.getWorkOrderBarPosition(order).width / 100) * this.columns.length * this.columnPixelWidth;
+        previewOrder.percentComplete = this.workOrderProgressService.clampPercent(
+          (order.percentComplete ?? 0) + (deltaX / barPixelWidth) * 100,
+          PROGRESS_STEP_PERCENT
+        );
+        break;
+      }
+    }
+
+    // Keep the last valid preview instead of letting an edge cross the opposite one
+    if (this.timelineUtilService.parseIsoDate(previewOrder.endDate) < this.timelineUtilService.parseIsoDate(previewOrder.startDate)) return;
+
+    this.dragState.previewOrder = previewOrder;
+    this.ngZone.run(() => this.changeDetector.markForCheck());
+  }
+
+  /** * WHAT: Commits or rejects the dragged bar on release.
+   * HOW: Validates the preview against 'hasOverlap' on the target work center and against
+   * its dependency links; a violation discards the preview (the bar snaps back) and shows
+   * the reason, otherwise it is emitted. In push mode only earlier orders and predecessors
+   * can block the drop, since later and dependent orders will be pushed forward.
+   */
+  private handleBarDragEnd(): void {
+    if (!this.dragState) return;
+
+    const { order, mode, previewOrder, hasMoved } = this.dragState;
+    this.cancelBarDrag();
+
+    // A press without movement is a click: it selects just this order
+    if (!hasMoved) {
+      this.ngZone.run(() => this.selectionChange.emit(new Set([order.id])));
+      return;
+    }
+
+    if (mode === BarDragModeEnum.PROGRESS) {
+      if (previewOrder.percentComplete !== order.percentComplete) {
+        this.ngZone.run(() => this.updateProgress.emit(previewOrder));
+      }
+      return;
+    }
+
+    const isUnchanged =
+      previewOrder.startDate === order.startDate &&
+      previewOrder.endDate === order.endDate &&
+      previewOrder.workCenterId === order.workCenterId;
+
+    if (isUnchanged) return;
+
+    const hasCollision = this.pushLaterOrders
+      ? this.rescheduleCascadeService.collidesWithEarlierOrders(previewOrder)
+      : this.workOrderService.hasOverlap(
+        previewOrder.workCenterId,
+        previewOrder.startDate,
+        previewOrder.endDate,
+        order.id
+      );
+
+    if (hasCollision) {
+      const targetWorkCenter = this.workCenters.find(workCenter => workCenter.id === previewOrder.workCenterId);
+      this.showDropRejection(
+        `"${order.name}" was not moved: it would exceed the capacity of ${targetWorkCenter?.name ?? 'this work center'}.`
+      );
+      return;
+    }
+
+    const dependencyConflicts = this.pushLaterOrders
+      ? this.dependencyService.findPredecessorConflicts(previewOrder)
+      : this.dependencyService.findDependencyConflicts(previewOrder);
+    if (dependencyConflicts.length) {
+      this.showDropRejection(
+        `"${order.name}" was not moved: it would break its dependency with ${dependencyConflicts.map(conflict => `"${conflict.name}"`).join(', ')}.`
+      );
+      return;
+    }
+
+    this.ngZone.run(() => this.rescheduleOrder.emit(previewOrder));
+  }
+
+  private cancelBarDrag(): void {
+    this.detachDragListeners?.();
+    this.dragState = null;
+    this.ngZone.run(() => this.changeDetector.markForCheck());
+  }
+
+  toggleOrderSelection(orderId: string): void {
+    const selectedOrderIds = new Set(this.selectedOrderIds);
+    if (!selectedOrderIds.delete(orderId)) selectedOrderIds.add(orderId);
+
+    this.selectionChange.emit(selectedOrderIds);
+  }
+
+  /** * WHAT: Starts a rubber-band selection on the empty part of the grid.
+   * HOW: Bars stop their own pointerdown, so this only fires on free space. The band
+   * appears once the pointer moves past the drag threshold; a plain click is left to
+   * 'onColumnClick'. Holding Shift/Ctrl/Cmd adds to the current selection.
+   */
+  onRowsPointerDown(event: PointerEvent): void {
+    if (event.button !== 0) return;
+
+    this.suppressColumnClick = false;
+    this.detachSelectionListeners?.();
+
+    const origin = this.toRowsPoint(event.clientX, event.clientY);
+    const isAdditive = event.shiftKey || event.ctrlKey || event.metaKey;
+
+    this.ngZone.runOutsideAngular(() => {
+      const handlePointerMove = (moveEvent: PointerEvent) => this.handleSelectionMove(origin, moveEvent);
+      const handlePointerUp = () => this.handleSelectionEnd(isAdditive);
+      const handlePointerCancel = () => this.cancelSelection();
+
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerCancel);
+
+      this.detachSelectionListeners = () => {
+        document.removeEventListener('pointermove', handlePointerMove);
+        document.removeEventListener('pointerup', handlePointerUp);
+        document.removeEventListener('pointercancel', handlePointerCancel);
+        this.detachSelectionListeners = null;
+      };
+    });
+  }
+
+  private handleSelectionMove(origin: { x: number; y: number }, event: PointerEvent): void {
+    const point = this.toRowsPoint(event.clientX, event.clientY);
+    const isPastThreshold =
+      Math.abs(point.x - origin.x) >= this.dragActivationThreshold ||
+      Math.abs(point.y - origin.y) >= this.dragActivationThreshold;
+
+    if (!this.selectionBox && !isPastThreshold) return;
+
+    this.selectionBox = {
+      left: Math.min(origin.x, point.x),
+      top: Math.min(origin.y, point.y),
+      width: Math.abs(point.x - origin.x),
+      height: Math.abs(point.y - origin.y),
+    };
+    this.ngZone.run(() => this.changeDetector.markForCheck());
+  }
+
+  /** * WHAT: Selects every bar touched by the rubber band.
+   * HOW: Intersects the band with the bars' pixel boxes and swallows the click that the
+   * browser may fire on the column where the gesture ended.
+   */
+  private handleSelectionEnd(isAdditive: boolean): void {
+    const selectionBox = this.selectionBox;
+    this.cancelSelection();
+    if (!selectionBox) return;
+
+    this.suppressColumnClick = true;
+
+    const selectedOrderIds = isAdditive ? new Set(this.selectedOrderIds) : new Set<string>();
+    for (const [orderId, anchor] of this.getBarAnchors()) {
+      const intersects =
+        selectionBox.left < anchor.endX && selectionBox.left + selectionBox.width > anchor.startX &&
+        selectionBox.top < anchor.top + this.laneHeight && selectionBox.top + selectionBox.height > anchor.top;
+
+      if (intersects) selectedOrderIds.add(orderId);
+    }
+
+    this.ngZone.run(() => this.selectionChange.emit(selectedOrderIds));
+  }
+
+  private cancelSelection(): void {
+    this.detachSelectionListeners?.();
+    this.selectionBox = null;
+    this.ngZone.run(() => this.changeDetector.markForCheck());
+  }
+
+  private toRowsPoint(clientX: number, clientY: number): { x: number; y: number } {
+    const rowsBoundingBox = this.rowsContainerElement.nativeElement.getBoundingClientRect();
+    return { x: clientX - rowsBoundingBox.left, y: clientY - rowsBoundingBox.top };
+  }
+
+  private getWorkCenterIdAtPoint(clientX: number, clientY: number): string | null {
+    const elementAtPoint = document.elementFromPoint?.(clientX, clientY) as HTMLElement | null;
+    const rowElement = elementAtPoint?.closest<HTMLElement>('[data-work-center-id]');
+    return rowElement?.dataset['workCenterId'] ?? null;
+  }
+
+  /** * WHAT: Resolves the one grid element reachable with Tab (roving tabindex).
+   * HOW: Keeps the last focused cell or bar while it is still rendered; otherwise falls
+   * back to the current period of the first work center so the grid never drops out of the tab order.
+   */
+  getTabStop(): GridFocusStop | null {
+    const stop = this.focusedStop;
+    const isRendered = !!stop &&
+      this.workCenters.some(workCenter => workCenter.id === stop.workCenterId) &&
+      this.columns.some(column => column.date.getTime() === stop.columnTime) &&
+      (!stop.orderId || this.getVisibleOrdersForWorkCenter(stop.workCenterId).some(order => order.id === stop.orderId));
+
+    if (isRendered) return stop;
+
+    const fallbackColumn = this.columns.find(column => column.isCurrentPeriod) ?? this.columns[0];
+    const fallbackWorkCenter = this.workCenters[0];
+    if (!fallbackColumn || !fallbackWorkCenter) return null;
+
+    return { workCenterId: fallbackWorkCenter.id, columnTime: fallbackColumn.date.getTime(), orderId: null };
+  }
+
+  isCellTabStop(tabStop: GridFocusStop | null, workCenterId: string, column: TimelineColumn): boolean {
+    return !!tabStop && !tabStop.orderId && tabStop.workCenterId === workCenterId && tabStop.columnTime === column.date.getTime();
+  }
+
+  getCellLabel(workCenter: WorkCenter, column: TimelineColumn): string {
+    return `${workCenter.name}, ${column.label}${column.isCurrentPeriod ? `, current ${this.currentPeriodLabels[this.zoom]}` : ''}`;
+  }
+
+  /** * WHAT: Groups a row's bars under the cell where they start (for 'aria-owns').
+   * HOW: Bars are positioned on the row rather than inside a cell, so each cell claims the
+   * bars starting in its period; bars starting before the loaded range go to the first cell.
+   */
+  getBarIdsByColumn(rowOrders: WorkOrder[]): Map<number, string> {
+    const barIdsByColumn = new Map<number, string>();
+
+    for (const workOrder of rowOrders) {
+      const columnIndex = this.getColumnIndexForDate(this.timelineUtilService.parseIsoDate(workOrder.startDate));
+      const ownedIds = barIdsByColumn.get(columnIndex);
+      barIdsByColumn.set(columnIndex, ownedIds ? `${ownedIds} work-order-${workOrder.id}` : `work-order-${workOrder.id}`);
+    }
+
+    return barIdsByColumn;
+  }
+
+  onGridFocusIn(event: FocusEvent): void {
+    this.focusedStop = this.getStopForElement(event.target as HTMLElement) ?? this.focusedStop;
+  }
+
+  /** * WHAT: Keyboard interaction for the grid cells and the bars inside them.
+   * HOW: Left/Right walk the row's stops (each period followed by the orders starting in it),
+   * Up/Down switch work centers and Home/End jump to the ends of the row. Enter or Space on
+   * a cell creates an order at that period; on a bar, Enter edits, Space toggles the selection,
+   * Delete removes it and Escape returns to its cell. Keys on the bar's menu buttons are left alone.
+   */
+  onGridKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement;
+    if (target.closest('button')) return;
+
+    const currentStop = this.getStopForElement(target);
+    if (!currentStop) return;
+
+    const order = currentStop.orderId ? this.orders.find(candidate => candidate.id === currentStop.orderId) : undefined;
+    const cellStop: GridFocusStop = { ...currentStop, orderId: null };
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const rowStops = this.getRowStops(currentStop.workCenterId);
+        const stopIndex = rowStops.findIndex(stop =>
+          stop.orderId === currentStop.orderId && stop.columnTime === currentStop.columnTime
+        );
+        const nextStop = rowStops[stopIndex + (event.key === 'ArrowRight' ? 1 : -1)];
+        if (nextStop) this.focusStop(nextStop);
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const rowIndex = this.workCenters.findIndex(workCenter => workCenter.id === currentStop.workCenterId);
+        const nextWorkCenter = this.workCenters[rowIndex + (event.key === 'ArrowDown' ? 1 : -1)];
+        if (nextWorkCenter) this.focusStop({ ...cellStop, workCenterId: nextWorkCenter.id });
+        break;
+      }
+      case 'Home':
+      case 'End': {
+        const column = event.key === 'Home' ? this.columns[0] : this.columns.at(-1);
+        if (column) this.focusStop({ ...cellStop, columnTime: column.date.getTime() });
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        if (!order) {
+          this.createOrder.emit({ workCenterId: currentStop.workCenterId, date: new Date(currentStop.columnTime) });
+        }
+        else if (event.key === 'Enter') {
+          this.editOrder.emit(order);
+        }
+        else {
+          const wasSelected = this.selectedOrderIds.has(order.id);
+          this.toggleOrderSelection(order.id);
+          this.announcerService.announce(`${order.name} ${wasSelected ? 'deselected' : 'selected'}`);
+        }
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (!order) return;
+        this.focusStop(cellStop);
+        this.deleteOrder.emit(order.id);
+        break;
+      case 'Escape':
+        if (!order) return;
+        this.focusStop(cellStop);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  /** * WHAT: Lists the focusable stops of a row from left to right.
+   * HOW: Every column cell is followed by the bars starting in it, ordered by lane.
+   */
+  private getRowStops(workCenterId: string): GridFocusStop[] {
+    const rowOrders = this.getVisibleOrdersForWorkCenter(workCenterId);
+    const laneLayout = this.getLaneLayout(rowOrders);
+    const barStops = [...rowOrders]
+      .sort((a, b) => (laneLayout.laneByOrderId.get(a.id) ?? 0) - (laneLayout.laneByOrderId.get(b.id) ?? 0))
+      .map(order => this.getBarStop(order));
+
+    return this.columns.flatMap(column => {
+      const columnTime = column.date.getTime();
+      return [{ workCenterId, columnTime, orderId: null }, ...barStops.filter(stop => stop.columnTime === columnTime)];
+    });
+  }
+
+  private getBarStop(order: WorkOrder): GridFocusStop {
+    const columnIndex = this.getColumnIndexForDate(this.timelineUtilService.parseIsoDate(order.startDate));
+    return { workCenterId: order.workCenterId, columnTime: this.columns[columnIndex].date.getTime(), orderId: order.id };
+  }
+
+  private getStopForElement(element: HTMLElement): GridFocusStop | null {
+    const workCenterId = element.closest<HTMLElement>('[data-work-center-id]')?.dataset['workCenterId'];
+    if (!workCenterId) return null;
+
+    const orderId = element.closest<HTMLElement>('[data-order-id]')?.dataset['orderId'];
+    if (orderId) {
+      const order = this.orders.find(candidate => candidate.id === orderId);
+      return order ? this.getBarStop(order) : null;
+    }
+
+    const column = this.columns[Number(element.closest<HTMLElement>('[data-column-index]')?.dataset['columnIndex'])];
+    return column ? { workCenterId, columnTime: column.date.getTime(), orderId: null } : null;
+  }
+
+  /** * WHAT: Moves the keyboard focus to a cell or bar.
+   * HOW: Both exist in the DOM already (only their tabindex changes), so they can be
+   * focused right away; focusing scrolls them into view and lets the infinite scroll extend the range.
+   */
+  private focusStop(stop: GridFocusStop): void {
+    this.focusedStop = stop;
+
+    const columnIndex = this.columns.findIndex(column => column.date.getTime() === stop.columnTime);
+    const selector = stop.orderId
+      ? `[data-order-id="${stop.orderId}"]`
+      : `[data-work-center-id="${stop.workCenterId}"] [data-column-index="${columnIndex}"]`;
+
+    this.rowsContainerElement.nativeElement.querySelector<HTMLElement>(selector)?.focus();
+  }
+
+  private showDropRejection(message: string): void {
+    if (this.dropRejectionTimeoutId) clearTimeout(this.dropRejectionTimeoutId);
+
+    this.dropRejectionMessage = message;
+    this.ngZone.run(() => this.changeDetector.markForCheck());
+
+    this.dropRejectionTimeoutId = setTimeout(() => {
+      this.dropRejectionMessage = null;
+      this.dropRejectionTimeoutId = null;
+      this.ngZone.run(() => this.changeDetector.markForCheck());
+    }, this.dropRejectionDurationMs);
+  }
 }
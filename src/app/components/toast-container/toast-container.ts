@@ -0,0 +1,29 @@
+import { Component, inject } from '@angular/core';
+
+import { ToastService } from '../../services/toast-service/toast.service';
+
+import ToastMessage from '../../models/toast-message';
+
+@Component({
+  selector: 'app-toast-container',
+  imports: [],
+  templateUrl: './toast-container.html',
+  styleUrl: './toast-container.scss',
+})
+export class ToastContainer {
+  private readonly toastService: ToastService = inject(ToastService);
+
+  readonly toasts = this.toastService.toasts;
+
+  /** * WHAT: Runs the toast's action (e.g. "Undo") and closes it.
+   * HOW: Dismisses first so a slow action can never be triggered twice.
+   */
+  onAction(toast: ToastMessage): void {
+    this.toastService.dismiss(toast.id);
+    toast.action?.();
+  }
+
+  dismiss(toast: ToastMessage): void {
+    this.toastService.dismiss(toast.id);
+  }
+}
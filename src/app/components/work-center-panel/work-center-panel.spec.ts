@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WorkCenterPanel } from './work-center-panel';
+
+describe('WorkCenterPanel', () => {
+  let component: WorkCenterPanel;
+  let fixture: ComponentFixture<WorkCenterPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WorkCenterPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WorkCenterPanel);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,195 @@
+import { Component, ElementRef, HostListener, inject, ViewChild } from '@angular/core';
+import { FormControl, FormsModule, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import WorkCenter from '../../models/work-center';
+import { WorkCenterRemovalActionEnum } from '../../enums/work-center-removal-action';
+
+@Component({
+  selector: 'app-work-center-panel',
+  imports: [
+    FormsModule,
+    ReactiveFormsModule,
+    NgSelectModule,
+    BaseModal
+  ],
+  templateUrl: './work-center-panel.html',
+  styleUrl: './work-center-panel.scss',
+})
+export class WorkCenterPanel {
+  @ViewChild('panel') panelElement!: ElementRef<HTMLElement>;
+
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly modalService: ModalService = inject(ModalService);
+
+  readonly workCenters = this.workOrderService.workCenters;
+
+  public isClosing: boolean = false;
+
+  pendingRemoval: { workCenter: WorkCenter; action: WorkCenterRemovalActionEnum } | null = null;
+  reassignTargetId: string | null = null;
+  removalError: string | null = null;
+  capacityError: { workCenterId: string; message: string } | null = null;
+
+  newWorkCenterName = new FormControl('', { nonNullable: true, validators: [Validators.required] });
+
+  protected readonly WorkCenterRemovalActionEnum = WorkCenterRemovalActionEnum;
+
+  /** * WHAT: Keeps keyboard focus inside the panel.
+   * HOW: Resolves the first and last focusable elements on every Tab press (the list
+   * changes while the panel is open) and wraps focus around in both directions.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.panelElement) return;
+
+    const focusableElements = this.panelElement.nativeElement.querySelectorAll<HTMLElement>(
+      'button:not([disabled]), input:not([disabled])'
+    );
+    const first = focusableElements[0];
+    const last = focusableElements[focusableElements.length - 1];
+
+    if (!event.shiftKey && document.activeElement === last) {
+      first.focus();
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      last.focus();
+      event.preventDefault();
+    }
+  }
+
+  getOrderCount(workCenterId: string): number {
+    return this.workOrderService.getOrdersForWorkCenter(workCenterId).length;
+  }
+
+  getReassignTargets(workCenterId: string): WorkCenter[] {
+    return this.workOrderService.activeWorkCenters().filter(workCenter => workCenter.id !== workCenterId);
+  }
+
+  onAddWorkCenter(): void {
+    const name = this.newWorkCenterName.value.trim();
+    if (!name) {
+      this.newWorkCenterName.markAsTouched();
+      return;
+    }
+
+    this.workOrderService.addWorkCenter(name);
+    this.newWorkCenterName.reset();
+  }
+
+  /** * WHAT: Commits an inline rename.
+   * HOW: Ignores blank or unchanged names and restores the input to the stored value.
+   */
+  onRename(workCenter: WorkCenter, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const name = input.value.trim();
+
+    if (!name || name === workCenter.name) {
+      input.value = workCenter.name;
+      return;
+    }
+
+    this.workOrderService.renameWorkCenter(workCenter.id, name);
+  }
+
+  /** * WHAT: Commits a new parallel capacity for a work center.
+   * HOW: Rejects values below the peak concurrency of the current schedule and
+   * restores the input so the displayed value always matches the stored one.
+   */
+  onCapacityChange(workCenter: WorkCenter, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const capacity = Number(input.value);
+    this.capacityError = null;
+
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      input.value = String(workCenter.capacity ?? 1);
+      this.capacityError = { workCenterId: workCenter.id, message: 'Capacity must be a whole number of at least 1.' };
+      return;
+    }
+
+    if (!this.workOrderService.setWorkCenterCapacity(workCenter.id, capacity)) {
+      input.value = String(workCenter.capacity ?? 1);
+      this.capacityError = {
+        workCenterId: workCenter.id,
+        message: `${this.workOrderService.getPeakConcurrency(workCenter.id)} orders already run in parallel here.`,
+      };
+    }
+  }
+
+  onMove(workCenter: WorkCenter, direction: -1 | 1): void {
+    this.workOrderService.moveWorkCenter(workCenter.id, direction);
+  }
+
+  onRestore(workCenter: WorkCenter): void {
+    this.workOrderService.restoreWorkCenter(workCenter.id);
+  }
+
+  /** * WHAT: Starts archiving or deleting a work center.
+   * HOW: Empty centers are handled immediately; centers with orders open an inline
+   * step asking where their orders should be moved before anything is changed.
+   */
+  onRequestRemoval(workCenter: WorkCenter, action: WorkCenterRemovalActionEnum): void {
+    this.removalError = null;
+    this.reassignTargetId = null;
+
+    if (this.getOrderCount(workCenter.id) === 0) {
+      this.removeWorkCenter(workCenter, action);
+      return;
+    }
+
+    this.pendingRemoval = { workCenter, action };
+  }
+
+  /** * WHAT: Completes a pending archive/delete that requires reassigning orders.
+   * HOW: Blocks the action with an explanation when no target is chosen or the moved
+   * orders would overlap existing ones on the target work center.
+   */
+  onConfirmRemoval(): void {
+    if (!this.pendingRemoval) return;
+
+    const { workCenter, action } = this.pendingRemoval;
+
+    if (!this.reassignTargetId) {
+      this.removalError = 'Choose a work center to move the orders to.';
+      return;
+    }
+
+    if (!this.workOrderService.canReassignOrders(workCenter.id, this.reassignTargetId)) {
+      this.removalError = 'Some orders would overlap existing orders on that work center. Choose another one.';
+      return;
+    }
+
+    if (this.removeWorkCenter(workCenter, action, this.reassignTargetId)) {
+      this.onCancelRemoval();
+    }
+  }
+
+  onCancelRemoval(): void {
+    this.pendingRemoval = null;
+    this.reassignTargetId = null;
+    this.removalError = null;
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+
+  private removeWorkCenter(
+    workCenter: WorkCenter,
+    action: WorkCenterRemovalActionEnum,
+    reassignToId?: string
+  ): boolean {
+    return action === WorkCenterRemovalActionEnum.ARCHIVE
+      ? this.workOrderService.archiveWorkCenter(workCenter.id, reassignToId)
+      : this.workOrderService.deleteWorkCenter(workCenter.id, reassignToId);
+  }
+}
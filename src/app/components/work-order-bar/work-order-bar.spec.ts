@@ -1,6 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { WorkOrderBar } from './work-order-bar';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
 
 describe('WorkOrderBar', () => {
   let component: WorkOrderBar;
@@ -14,6 +15,10 @@ describe('WorkOrderBar', () => {
 
     fixture = TestBed.createComponent(WorkOrderBar);
     component = fixture.componentInstance;
+    fixture.componentRef.setInput('order', {
+      id: 'order-1', name: 'Cutting', workCenterId: 'wc-a', status: WorkOrderStatusEnum.OPEN,
+      startDate: '2026-01-01', endDate: '2026-01-10',
+    });
     await fixture.whenStable();
   });
 
@@ -1,8 +1,14 @@
-import { Component, ElementRef, EventEmitter, HostListener, Input, Output } from '@angular/core';
+import { Component, ElementRef, EventEmitter, HostListener, inject, Input, Output } from '@angular/core';
 import { NgOptimizedImage } from '@angular/common';
 
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
+
 import WorkOrder from '../../models/work-order';
-import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import BarDragEvent from '../../models/bar-drag-event';
+import WorkOrderHealthWarning from '../../models/work-order-health-warning';
+import StatusDefinition from '../../models/status-definition';
+import { BarDragModeEnum } from '../../enums/bar-drag-mode';
+import { WorkOrderHealthEnum } from '../../enums/work-order-health';
 
 @Component({
   selector: 'app-work-order-bar',
@@ -14,43 +20,57 @@ export class WorkOrderBar {
   @Input() order!: WorkOrder;
   @Input() left = 0;
   @Input() width = 0;
+  @Input() top = 0;
+  @Input() dragging = false;
+  @Input() hasDependencyConflict = false;
+  @Input() dimmed = false;
+  @Input() compact = false;
+  @Input() selected = false;
+  @Input() focusable = false;
+  @Input() healthWarnings: WorkOrderHealthWarning[] = [];
   @Output() edit = new EventEmitter<WorkOrder>();
   @Output() delete = new EventEmitter<string>();
+  @Output() dragStart = new EventEmitter<BarDragEvent>();
+
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
 
   menuOpen = false;
 
-  get statusClass(): string {
-    switch (this.order.status) {
-      case WorkOrderStatusEnum.OPEN:
-        return 'open';
-      case WorkOrderStatusEnum.IN_PROGRESS:
-        return 'inprogress';
-      case WorkOrderStatusEnum.COMPLETED:
-        return 'completed';
-      case WorkOrderStatusEnum.BLOCKED:
-        return 'blocked';
-      default:
-        return '';
-    }
+  protected readonly BarDragModeEnum = BarDragModeEnum;
+
+  // WHAT: Configured label and color of the order's status.
+  // HOW: The color is handed to the stylesheet as '--status-color', which derives the bar tints from it.
+  get status(): StatusDefinition {
+    return this.statusConfigService.getStatus(this.order.status);
   }
 
-  constructor(private elRef: ElementRef) {}
+  get isOverdue(): boolean {
+    return this.healthWarnings.some(warning => warning.health === WorkOrderHealthEnum.OVERDUE);
+  }
 
-  statusText(status: WorkOrderStatusEnum): string {
-    switch (status) {
-      case WorkOrderStatusEnum.OPEN:
-        return 'Open';
-      case WorkOrderStatusEnum.IN_PROGRESS:
-        return 'In progress';
-      case WorkOrderStatusEnum.COMPLETED:
-        return 'Completed';
-      case WorkOrderStatusEnum.BLOCKED:
-        return 'Blocked';
-      default:
-        return '';
-    }
+  get healthText(): string {
+    return this.healthWarnings.map(warning => warning.label).join(' · ');
   }
 
+  /** * WHAT: Spoken summary of the bar for screen readers.
+   * HOW: Mirrors the tooltip (name, status, dates, block reason, warnings) and adds the selection state,
+   * since the bar itself is announced as a "work order" group rather than an option.
+   */
+  get ariaLabel(): string {
+    return [
+      this.order.name,
+      this.status.label,
+      `${this.order.startDate} to ${this.order.endDate}`,
+      ...(this.order.blockedReason ? [`Blocked: ${this.order.blockedReason}`] : []),
+      ...(this.order.percentComplete !== undefined ? [`${this.order.percentComplete}% complete`] : []),
+      ...(this.hasDependencyConflict ? ['Starts before its predecessor allows'] : []),
+      ...this.healthWarnings.map(warning => warning.label),
+      ...(this.selected ? ['Selected'] : []),
+    ].join(', ');
+  }
+
+  constructor(private elRef: ElementRef) {}
+
   toggleMenu(e: Event): void {
     e.stopPropagation();
     this.menuOpen = !this.menuOpen;
@@ -68,6 +88,19 @@ export class WorkOrderBar {
     this.delete.emit(this.order.id);
   }
 
+  /** * WHAT: Starts a move or edge-resize gesture on the bar.
+   * HOW: Ignores secondary buttons and presses on the actions menu, then hands the
+   * pointer event to the Timeline, which owns the drag math and the drop validation.
+   */
+  onPointerDown(event: PointerEvent, mode: BarDragModeEnum): void {
+    if (event.button !== 0) return;
+    if ((event.target as HTMLElement).closest('.work-order__actions')) return;
+
+    event.stopPropagation();
+    this.menuOpen = false;
+    this.dragStart.emit({ pointerEvent: event, mode });
+  }
+
   @HostListener('document:click', ['$event'])
   onDocumentClick(event: Event): void {
     if (this.menuOpen && !this.elRef.nativeElement.contains(event.target)) {
@@ -1,6 +1,9 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { WorkOrderPanel } from './work-order-panel';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { AuditActionEnum } from '../../enums/audit-action';
+import { WorkOrderPanelTabEnum } from '../../enums/work-order-panel-tab';
 
 describe('WorkOrderPanel', () => {
   let component: WorkOrderPanel;
@@ -20,4 +23,43 @@ describe('WorkOrderPanel', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should suggest completing an order at 100% progress', () => {
+    component.form.patchValue({ status: WorkOrderStatusEnum.IN_PROGRESS, percentComplete: 100 });
+    expect(component.suggestedStatus?.value).toBe(WorkOrderStatusEnum.COMPLETED);
+
+    component.applySuggestedStatus();
+    expect(component.form.controls.status.value).toBe(WorkOrderStatusEnum.COMPLETED);
+    expect(component.suggestedStatus).toBeNull();
+  });
+
+  it('should load a restored version into the form without saving it', () => {
+    component.activeTab.set(WorkOrderPanelTabEnum.HISTORY);
+    component.restoreVersion({
+      id: 'a1',
+      orderId: 'wo1',
+      action: AuditActionEnum.UPDATE,
+      actor: 'Dana',
+      timestamp: '2026-10-01T08:00:00.000Z',
+      label: 'Update "Weld frames"',
+      fieldChanges: [],
+      snapshot: {
+        id: 'wo1',
+        name: 'Weld frames',
+        workCenterId: 'wc2',
+        startDate: '2026-10-01',
+        endDate: '2026-10-08T14:00',
+        status: WorkOrderStatusEnum.BLOCKED,
+      },
+    });
+
+    expect(component.activeTab()).toBe(WorkOrderPanelTabEnum.DETAILS);
+    expect(component.targetWorkCenterId).toBe('wc2');
+    expect(component.form.getRawValue()).toEqual(expect.objectContaining({
+      name: 'Weld frames',
+      status: WorkOrderStatusEnum.BLOCKED,
+      endDate: { year: 2026, month: 10, day: 8 },
+      endTime: '14:00',
+    }));
+  });
 });
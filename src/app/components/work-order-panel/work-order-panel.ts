@@ -1,30 +1,57 @@
 import {
   Component,
+  DestroyRef,
   ElementRef,
   HostListener,
   inject,
   Input,
   OnInit,
-  ViewChild
+  QueryList,
+  signal,
+  ViewChild,
+  ViewChildren
 } from '@angular/core';
 import {
   AbstractControl,
+  FormArray,
   FormControl,
   FormGroup,
   ReactiveFormsModule,
   ValidationErrors,
   Validators
 } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { merge } from 'rxjs';
 import { NgbDatepickerModule, NgbDateStruct, NgbInputDatepicker } from '@ng-bootstrap/ng-bootstrap';
 import { NgSelectModule } from '@ng-select/ng-select';
 
 import { WorkOrderService } from '../../services/work-order-service/work-order.service';
 import { ModalService } from '../../services/modal-service/modal-service';
+import { DependencyService } from '../../services/dependency-service/dependency.service';
+import { RescheduleCascadeService } from '../../services/reschedule-cascade-service/reschedule-cascade.service';
+import { SHIFT_LENGTH_HOURS, TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { WorkingCalendarService } from '../../services/working-calendar-service/working-calendar.service';
+import { WorkOrderProgressService } from '../../services/work-order-progress-service/work-order-progress.service';
+import { AuditLogService } from '../../services/audit-log-service/audit-log.service';
+import { StatusWorkflowService } from '../../services/status-workflow-service/status-workflow.service';
+import { StatusConfigService } from '../../services/status-config-service/status-config.service';
 
 import { BaseModal } from '../../base-components/base-modal/base-modal';
 
 import WorkOrder from '../../models/work-order';
-import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import WorkOrderDependency from '../../models/work-order-dependency';
+import WorkingCalendar from '../../models/working-calendar';
+import AuditEntry from '../../models/audit-entry';
+import AuditFieldChange from '../../models/audit-field-change';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+import { AuditActionEnum } from '../../enums/audit-action';
+import { WorkOrderPanelTabEnum } from '../../enums/work-order-panel-tab';
+
+type DependencyFormGroup = FormGroup<{
+  predecessorId: FormControl<string | null>;
+  type: FormControl<DependencyTypeEnum>;
+}>;
 
 @Component({
   selector: 'app-work-order-panel',
@@ -42,35 +69,123 @@ export class WorkOrderPanel implements OnInit {
   @Input() editingOrder: WorkOrder | null = null;
   @Input() workCenterId: string | null = null;
   @Input() initialStartDate: Date | null = null;
+  @Input() initialStartIncludesTime: boolean = false;
+  @Input() pushLaterOrders: boolean = false;
 
   @ViewChild('firstElement') firstElement!: ElementRef;
   @ViewChild('lastElement') lastElement!: ElementRef;
+  @ViewChild('historyTab') historyTab?: ElementRef<HTMLButtonElement>;
+  @ViewChildren('restoreButton') restoreButtons?: QueryList<ElementRef<HTMLButtonElement>>;
 
   private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
   private readonly modalService: ModalService = inject(ModalService);
+  private readonly dependencyService: DependencyService = inject(DependencyService);
+  private readonly rescheduleCascadeService: RescheduleCascadeService = inject(RescheduleCascadeService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly workingCalendarService: WorkingCalendarService = inject(WorkingCalendarService);
+  private readonly workOrderProgressService: WorkOrderProgressService = inject(WorkOrderProgressService);
+  private readonly auditLogService: AuditLogService = inject(AuditLogService);
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+  private readonly destroyRef: DestroyRef = inject(DestroyRef);
 
   public isClosing: boolean = false;
 
-  readonly statusOptions = [
-    { value: WorkOrderStatusEnum.OPEN, label: 'Open' },
-    { value: WorkOrderStatusEnum.IN_PROGRESS, label: 'In Progress' },
-    { value: WorkOrderStatusEnum.COMPLETED, label: 'Completed' },
-    { value: WorkOrderStatusEnum.BLOCKED, label: 'Blocked' }
+  readonly activeTab = signal(WorkOrderPanelTabEnum.DETAILS);
+
+  protected readonly WorkOrderPanelTabEnum = WorkOrderPanelTabEnum;
+  protected readonly AuditActionEnum = AuditActionEnum;
+
+  // WHAT: The audit log of the edited order, newest first.
+  // HOW: A signal, since it arrives asynchronously from the storage backend.
+  readonly historyEntries = signal<AuditEntry[]>([]);
+
+  // WHAT: The earlier version loaded into the form from the History tab, if any.
+  // HOW: Only its work center matters after loading, since every other field is a form control.
+  restoredVersion: WorkOrder | null = null;
+
+  private readonly auditFieldLabels: Partial<Record<keyof WorkOrder, string>> = {
+    name: 'Name',
+    workCenterId: 'Work center',
+    startDate: 'Start',
+    endDate: 'End',
+    status: 'Status',
+    percentComplete: 'Progress',
+    dependencies: 'Predecessors',
+    blockedSince: 'Blocked since',
+    blockedReason: 'Block reason',
+    blockedFromStatus: 'Status before the block',
+  };
+
+  private readonly auditActionLabels: Record<AuditActionEnum, string> = {
+    [AuditActionEnum.CREATE]: 'Created',
+    [AuditActionEnum.UPDATE]: 'Updated',
+    [AuditActionEnum.DELETE]: 'Deleted',
+  };
+
+  readonly statusOptions = this.statusConfigService.statusOptions();
+
+  // WHAT: The statuses the status workflow lets this order move to (all of them for a new order).
+  availableStatusOptions = this.statusOptions;
+
+  readonly dependencyTypeOptions = [
+    { value: DependencyTypeEnum.FINISH_TO_START, label: 'Finish-to-start' },
+    { value: DependencyTypeEnum.START_TO_START, label: 'Start-to-start' }
   ];
 
+  predecessorOptions: { value: string; label: string }[] = [];
+
   form = new FormGroup({
     name: new FormControl('', { nonNullable: true, validators: [Validators.required] }),
-    status: new FormControl<WorkOrderStatusEnum | null>(null, [Validators.required]),
+    status: new FormControl<string | null>(null, [Validators.required]),
+    blockedReason: new FormControl('', { nonNullable: true }),
+    percentComplete: new FormControl<number | null>(null, [Validators.min(0), Validators.max(100)]),
     startDate: new FormControl<NgbDateStruct | null>(null, [Validators.required]),
+    startTime: new FormControl('', { nonNullable: true }),
     endDate: new FormControl<NgbDateStruct | null>(null, [Validators.required]),
+    endTime: new FormControl('', { nonNullable: true }),
+    workingDays: new FormControl<number | null>(null, [Validators.min(1)]),
+    dependencies: new FormArray<DependencyFormGroup>([]),
   }, {
-    validators: [this.dateOrderValidator, this.validateWorkCenterOverlap.bind(this)]
+    validators: [
+      this.dateOrderValidator.bind(this),
+      this.validateWorkCenterOverlap.bind(this),
+      this.validateDependencies.bind(this),
+      this.validateStatusWorkflow.bind(this)
+    ]
   });
 
   get isEditMode(): boolean {
     return !!this.editingOrder;
   }
 
+  /** * WHAT: The work center the submitted order will be on.
+   * HOW: A restored version may have been on another row; otherwise it is the edited
+   * order's row, or the clicked one for a new order.
+   */
+  get targetWorkCenterId(): string | null {
+    return this.restoredVersion?.workCenterId || this.editingOrder?.workCenterId || this.workCenterId;
+  }
+
+  get isPushingLaterOrders(): boolean {
+    return this.pushLaterOrders && this.isEditMode;
+  }
+
+  get dependencyControls(): DependencyFormGroup[] {
+    return this.form.controls.dependencies.controls;
+  }
+
+  /** * WHAT: The status that matches the entered progress (e.g. Completed at 100%), if it differs.
+   * HOW: Only offered as a suggestion next to the field; 'applySuggestedStatus' applies it.
+   */
+  get suggestedStatus(): { value: string; label: string } | null {
+    const { status, percentComplete } = this.form.getRawValue();
+    if (status === null || percentComplete === null || this.form.controls.percentComplete.invalid) return null;
+
+    const suggestedStatus = this.workOrderProgressService.getSuggestedStatus({ status, percentComplete });
+    return this.availableStatusOptions.find(option => option.value === suggestedStatus) ?? null;
+  }
+
   /** * WHAT: Prevents the user from tabbing out of the modal.
    * HOW: Intercepts the Tab keydown event and manually cycles focus back to
    * the first element if the last focusable element is reached.
@@ -79,7 +194,9 @@ export class WorkOrderPanel implements OnInit {
   handleKeyDown(event: KeyboardEvent): void {
     if (event.key === 'Tab') {
       const first = this.firstElement.nativeElement;
-      const last = this.lastElement.nativeElement;
+      const last = this.activeTab() === WorkOrderPanelTabEnum.HISTORY
+        ? (this.restoreButtons?.last ?? this.historyTab)?.nativeElement
+        : this.lastElement.nativeElement;
 
       if (document.activeElement === last) {
         first.focus();
@@ -89,32 +206,192 @@ export class WorkOrderPanel implements OnInit {
   }
 
   ngOnInit(): void {
+    this.predecessorOptions = this.workOrderService.orders()
+      .filter(order => order.id !== this.editingOrder?.id)
+      .map(order => ({ value: order.id, label: order.name }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+
+    if (this.editingOrder) {
+      this.auditLogService.loadEntriesForOrder(this.editingOrder.id)
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe(entries => this.historyEntries.set(entries));
+    }
+
+    const allowedStatuses = this.statusWorkflowService.getAllowedStatuses(this.editingOrder);
+    this.availableStatusOptions = this.statusOptions.filter(option => allowedStatuses.includes(option.value));
+
     this.initializeForm();
+    this.syncWorkingDays();
+
+    this.form.controls.workingDays.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(workingDays => this.applyWorkingDays(workingDays));
+
+    merge(this.form.controls.startDate.valueChanges, this.form.controls.endDate.valueChanges)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.syncWorkingDays());
+  }
+
+  addDependency(dependency?: WorkOrderDependency): void {
+    this.form.controls.dependencies.push(new FormGroup({
+      predecessorId: new FormControl<string | null>(dependency?.predecessorId ?? null, [Validators.required]),
+      type: new FormControl(dependency?.type ?? DependencyTypeEnum.FINISH_TO_START, { nonNullable: true }),
+    }));
+  }
+
+  removeDependency(index: number): void {
+    this.form.controls.dependencies.removeAt(index);
+  }
+
+  // WHAT: Whether the selected status is of the blocked category, which asks for a block reason.
+  get isBlockedStatusSelected(): boolean {
+    const status = this.form.controls.status.value;
+    return status !== null && this.statusConfigService.isInCategory(status, StatusCategoryEnum.BLOCKED);
+  }
+
+  applySuggestedStatus(): void {
+    const suggestedStatus = this.suggestedStatus;
+    if (suggestedStatus) this.form.controls.status.setValue(suggestedStatus.value);
+  }
+
+  /** * WHAT: Loads an earlier version of the order from the History tab into the form.
+   * HOW: Nothing is saved yet; the Details tab opens with the version's values so the usual
+   * validation (overlaps, dependencies) runs and the user confirms with Update. Links to
+   * orders that no longer exist are dropped.
+   */
+  restoreVersion(entry: AuditEntry): void {
+    const version = entry.snapshot;
+    this.restoredVersion = version;
+
+    this.form.controls.dependencies.clear();
+    version.dependencies
+      ?.filter(dependency => this.predecessorOptions.some(option => option.value === dependency.predecessorId))
+      .forEach(dependency => this.addDependency(dependency));
+
+    this.form.patchValue({
+      name: version.name,
+      status: version.status,
+      blockedReason: version.blockedReason ?? '',
+      percentComplete: version.percentComplete ?? null,
+      startDate: this.convertToNgbDateStruct(version.startDate),
+      startTime: this.extractTime(version.startDate),
+      endDate: this.convertToNgbDateStruct(version.endDate),
+      endTime: this.extractTime(version.endDate),
+    });
+    this.form.markAllAsTouched();
+    this.activeTab.set(WorkOrderPanelTabEnum.DETAILS);
+  }
+
+  getAuditActionLabel(entry: AuditEntry): string {
+    return this.auditActionLabels[entry.action];
+  }
+
+  getAuditFieldLabel(change: AuditFieldChange): string {
+    return this.auditFieldLabels[change.field] ?? change.field;
+  }
+
+  formatAuditTimestamp(timestampIso: string): string {
+    return new Date(timestampIso).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  /** * WHAT: Renders one side of a logged field change for the History tab.
+   * HOW: Maps ids and enum values to the names shown elsewhere in the app; a missing
+   * value (e.g. progress not tracked yet) is shown as a dash.
+   */
+  formatAuditValue(field: keyof WorkOrder, value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+
+    switch (field) {
+      case 'status':
+      case 'blockedFromStatus':
+        return this.statusConfigService.getLabel(String(value));
+      case 'workCenterId':
+        return this.workOrderService.workCenters().find(workCenter => workCenter.id === value)?.name ?? String(value);
+      case 'percentComplete':
+        return `${value}%`;
+      case 'dependencies': {
+        const dependencies = value as WorkOrderDependency[];
+        if (!dependencies.length) return 'None';
+
+        return dependencies
+          .map(dependency =>
+            this.workOrderService.orders().find(order => order.id === dependency.predecessorId)?.name ?? dependency.predecessorId
+          )
+          .join(', ');
+      }
+      default:
+        return String(value);
+    }
   }
 
   /** * WHAT: Populates the form fields based on the component's intent.
    * HOW: Checks if 'editingOrder' exists to patch existing data, or uses
-   * 'initialStartDate' to pre-fill a new order with a default 7-day duration.
+   * 'initialStartDate' to pre-fill a new order with a default 7-day duration
+   * (one shift when it was created from the Hour or Shift view).
    */
   private initializeForm(): void {
     if (this.editingOrder) {
       this.form.patchValue({
         name: this.editingOrder.name,
         status: this.editingOrder.status,
+        blockedReason: this.editingOrder.blockedReason ?? '',
+        percentComplete: this.editingOrder.percentComplete ?? null,
         startDate: this.convertToNgbDateStruct(this.editingOrder.startDate),
+        startTime: this.extractTime(this.editingOrder.startDate),
         endDate: this.convertToNgbDateStruct(this.editingOrder.endDate),
+        endTime: this.extractTime(this.editingOrder.endDate),
       });
+      this.editingOrder.dependencies?.forEach(dependency => this.addDependency(dependency));
     } else if (this.initialStartDate) {
       const preFilledEndDate = new Date(this.initialStartDate)
-      preFilledEndDate.setDate(preFilledEndDate.getDate() + 7)
+      if (this.initialStartIncludesTime) preFilledEndDate.setHours(preFilledEndDate.getHours() + SHIFT_LENGTH_HOURS)
+      else preFilledEndDate.setDate(preFilledEndDate.getDate() + 7)
       this.form.patchValue({
         startDate: this.convertToNgbDateStruct(this.initialStartDate),
+        startTime: this.initialStartIncludesTime ? this.extractTime(this.timelineUtilService.formatIsoDateTime(this.initialStartDate)) : '',
         endDate: this.convertToNgbDateStruct(preFilledEndDate),
-        status: WorkOrderStatusEnum.OPEN
+        endTime: this.initialStartIncludesTime ? this.extractTime(this.timelineUtilService.formatIsoDateTime(preFilledEndDate)) : '',
+        status: this.statusConfigService.getDefaultStatusId(StatusCategoryEnum.NOT_STARTED)
       });
     }
   }
 
+  /** * WHAT: Derives the end date from the "Working days" field.
+   * HOW: Counts working days from the start date on the work center's calendar, skipping
+   * weekends and holidays. The order becomes date-only, since working days are whole days.
+   */
+  private applyWorkingDays(workingDays: number | null): void {
+    const startDateIso = this.readIsoValue(this.form, 'start');
+    if (!startDateIso || !workingDays || !Number.isInteger(workingDays) || workingDays < 1) return;
+
+    const endDateIso = this.workingCalendarService.addWorkingDays(startDateIso, workingDays, this.getWorkingCalendar());
+    this.form.controls.endTime.setValue('', { emitEvent: false });
+    this.form.controls.endDate.setValue(this.convertToNgbDateStruct(endDateIso), { emitEvent: false });
+  }
+
+  /** * WHAT: Shows how many working days the chosen dates span.
+   * HOW: Updated without emitting, so it never feeds back into 'applyWorkingDays'.
+   */
+  private syncWorkingDays(): void {
+    const startDateIso = this.readIsoValue(this.form, 'start');
+    const endDateIso = this.readIsoValue(this.form, 'end');
+
+    const workingDays = startDateIso && endDateIso
+      ? this.workingCalendarService.countWorkingDays(startDateIso, endDateIso, this.getWorkingCalendar())
+      : null;
+    this.form.controls.workingDays.setValue(workingDays, { emitEvent: false });
+  }
+
+  private getWorkingCalendar(): WorkingCalendar {
+    return this.workingCalendarService.getCalendar(this.targetWorkCenterId);
+  }
+
   /** * WHAT: Handles the visual dismissal of the panel.
    * HOW: Sets an 'isClosing' flag to trigger CSS exit animations and
    * delays the ModalService cleanup to allow the animation to complete.
@@ -128,10 +405,14 @@ export class WorkOrderPanel implements OnInit {
   }
 
   private convertToNgbDateStruct(date: Date | string): NgbDateStruct {
-    const d = new Date(date);
+    const d = typeof date === 'string' ? this.timelineUtilService.parseIsoDate(date) : new Date(date);
     return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
   }
 
+  private extractTime(dateIso: string): string {
+    return this.timelineUtilService.hasTime(dateIso) ? dateIso.slice(11, 16) : '';
+  }
+
   /** * WHAT: Maps an NgbDateStruct to an ISO date string.
    * HOW: Pads month and day values with leading zeros to ensure a
    * consistent YYYY-MM-DD format for storage and comparison.
@@ -140,50 +421,137 @@ export class WorkOrderPanel implements OnInit {
     return `${struct.year}-${String(struct.month).padStart(2, '0')}-${String(struct.day).padStart(2, '0')}`;
   }
 
+  /** * WHAT: Combines a date field and its optional time field into the stored value.
+   * HOW: Without a time the order stays date-only (YYYY-MM-DD), otherwise it
+   * becomes YYYY-MM-DDTHH:mm.
+   */
+  private readIsoValue(group: AbstractControl, field: 'start' | 'end'): string | null {
+    const dateStruct = group.get(`${field}Date`)?.value as NgbDateStruct | null;
+    const time = group.get(`${field}Time`)?.value as string;
+
+    if (!dateStruct) return null;
+
+    const dateIso = this.formatToIsoDateString(dateStruct);
+    return time ? `${dateIso}T${time}` : dateIso;
+  }
+
   /** * WHAT: Cross-field validator to ensure date logic consistency.
-   * HOW: Compares the start and end Date objects and returns a 'dateOrder'
-   * error if the end date occurs before the start date.
+   * HOW: Compares the start and end (including their times, if any) and returns
+   * a 'dateOrder' error if the end occurs before the start.
    */
   private dateOrderValidator(group: AbstractControl): ValidationErrors | null {
-    const start = group.get('startDate')?.value as NgbDateStruct;
-    const end = group.get('endDate')?.value as NgbDateStruct;
+    const startIso = this.readIsoValue(group, 'start');
+    const endIso = this.readIsoValue(group, 'end');
 
-    if (!start || !end) return null;
+    if (!startIso || !endIso) return null;
 
-    const startDate = new Date(start.year, start.month - 1, start.day);
-    const endDate = new Date(end.year, end.month - 1, end.day);
+    const startDate = this.timelineUtilService.parseIsoDate(startIso);
+    const endDate = this.timelineUtilService.parseIsoDate(endIso);
 
     return endDate >= startDate ? null : { dateOrder: true };
   }
 
   /** * WHAT: Cross-field validator for scheduling integrity.
    * HOW: Delegates to the WorkOrderService to check if the selected dates
-   * intersect with existing orders on the same work center.
+   * intersect with existing orders on the same work center. When later orders
+   * are being pushed, only the orders starting earlier can cause a collision.
    */
   private validateWorkCenterOverlap(group: AbstractControl): ValidationErrors | null {
-    const workCenterId = this.editingOrder?.workCenterId || this.workCenterId;
-    const startDateStruct = group.get('startDate')?.value;
-    const endDateStruct = group.get('endDate')?.value;
+    const workCenterId = this.targetWorkCenterId;
+    const startDateIso = this.readIsoValue(group, 'start');
+    const endDateIso = this.readIsoValue(group, 'end');
 
-    if (!workCenterId || !startDateStruct || !endDateStruct) return null;
+    if (!workCenterId || !startDateIso || !endDateIso) return null;
 
-    const startDateIso = this.formatToIsoDateString(startDateStruct);
-    const endDateIso = this.formatToIsoDateString(endDateStruct);
     const currentOrderId = this.editingOrder?.id;
 
-    const hasCollision = this.workOrderService.hasOverlap(
-      workCenterId,
-      startDateIso,
-      endDateIso,
-      currentOrderId
-    );
+    const hasCollision = this.isPushingLaterOrders
+      ? this.rescheduleCascadeService.collidesWithEarlierOrders({
+        ...this.editingOrder!,
+        workCenterId,
+        startDate: startDateIso,
+        endDate: endDateIso,
+      })
+      : this.workOrderService.hasOverlap(
+        workCenterId,
+        startDateIso,
+        endDateIso,
+        currentOrderId
+      );
 
     return hasCollision ? { workCenterOverlap: true } : null;
   }
 
+  /** * WHAT: Cross-field validator for predecessor links.
+   * HOW: Rejects links that would make the order depend on itself (directly or through
+   * a chain), then asks the DependencyService which links the chosen dates would break
+   * (only predecessor links when successors are going to be pushed).
+   */
+  private validateDependencies(group: AbstractControl): ValidationErrors | null {
+    const startDateIso = this.readIsoValue(group, 'start');
+    const endDateIso = this.readIsoValue(group, 'end');
+    const dependencies = this.collectDependencies(group);
+
+    if (this.editingOrder && this.dependencyService.wouldCreateCycle(
+      this.editingOrder.id,
+      dependencies.map(dependency => dependency.predecessorId)
+    )) {
+      return { dependencyCycle: true };
+    }
+
+    if (!startDateIso || !endDateIso) return null;
+
+    const candidate = {
+      ...this.editingOrder,
+      id: this.editingOrder?.id ?? '',
+      workCenterId: this.targetWorkCenterId!,
+      startDate: startDateIso,
+      endDate: endDateIso,
+      dependencies,
+    } as WorkOrder;
+
+    const conflictingOrders = this.isPushingLaterOrders
+      ? this.dependencyService.findPredecessorConflicts(candidate)
+      : this.dependencyService.findDependencyConflicts(candidate);
+
+    return conflictingOrders.length
+      ? { dependencyConflict: conflictingOrders.map(order => order.name).join(', ') }
+      : null;
+  }
+
+  /** * WHAT: Cross-field validator for the status workflow.
+   * HOW: Flags a status the edited order is not allowed to move to (e.g. a restored
+   * version that was still open), and a newly blocked order without a reason.
+   */
+  private validateStatusWorkflow(group: AbstractControl): ValidationErrors | null {
+    const status = group.get('status')?.value as string | null;
+    if (status === null) return null;
+
+    if (this.editingOrder && !this.statusWorkflowService.canTransition(this.editingOrder, status)) {
+      return { statusTransition: true };
+    }
+
+    const isBlocked = (statusId: string | undefined) =>
+      statusId !== undefined && this.statusConfigService.isInCategory(statusId, StatusCategoryEnum.BLOCKED);
+    const isNewlyBlocked = isBlocked(status) && !isBlocked(this.editingOrder?.status);
+    const blockedReason = group.get('blockedReason')?.value as string;
+    return isNewlyBlocked && !blockedReason.trim() ? { blockedReasonRequired: true } : null;
+  }
+
+  /** * WHAT: Reads the completed predecessor rows from the form.
+   * HOW: Skips rows without a selected order and keeps only the first link per predecessor.
+   */
+  private collectDependencies(group: AbstractControl): WorkOrderDependency[] {
+    const rows = (group.get('dependencies')?.value ?? []) as { predecessorId: string | null; type: DependencyTypeEnum }[];
+
+    return rows
+      .filter((row, index) => row.predecessorId && rows.findIndex(other => other.predecessorId === row.predecessorId) === index)
+      .map(row => ({ predecessorId: row.predecessorId!, type: row.type }));
+  }
+
   /** * WHAT: Processes the form data for submission.
    * HOW: Validates the form state, constructs a WorkOrder payload by
-   * converting NgbDate structs to ISO strings, and triggers the close sequence.
+   * converting NgbDate structs (plus optional times) to ISO strings, and triggers the close sequence.
    */
   onSubmit(): void {
     if (this.form.invalid) {
@@ -195,11 +563,14 @@ export class WorkOrderPanel implements OnInit {
 
     const payload = {
       ...this.editingOrder,
-      workCenterId: this.editingOrder?.workCenterId || this.workCenterId!,
+      workCenterId: this.targetWorkCenterId!,
       name: raw.name,
       status: raw.status!,
-      startDate: this.formatToIsoDateString(raw.startDate!),
-      endDate: this.formatToIsoDateString(raw.endDate!),
+      blockedReason: this.isBlockedStatusSelected ? raw.blockedReason.trim() : undefined,
+      percentComplete: raw.percentComplete === null ? undefined : this.workOrderProgressService.clampPercent(raw.percentComplete),
+      startDate: this.readIsoValue(this.form, 'start')!,
+      endDate: this.readIsoValue(this.form, 'end')!,
+      dependencies: this.collectDependencies(this.form),
     } as WorkOrder;
 
     this.startCloseAnimation(payload);
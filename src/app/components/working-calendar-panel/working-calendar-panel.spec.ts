@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WorkingCalendarPanel } from './working-calendar-panel';
+
+describe('WorkingCalendarPanel', () => {
+  let component: WorkingCalendarPanel;
+  let fixture: ComponentFixture<WorkingCalendarPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WorkingCalendarPanel]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WorkingCalendarPanel);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,172 @@
+import { Component, ElementRef, HostListener, inject, ViewChild } from '@angular/core';
+import { FormControl, FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { NgSelectModule } from '@ng-select/ng-select';
+
+import { WorkOrderService } from '../../services/work-order-service/work-order.service';
+import { WorkingCalendarService } from '../../services/working-calendar-service/working-calendar.service';
+import { TimelineUtilService } from '../../services/timeline-util-service/timeline-util.service';
+import { ModalService } from '../../services/modal-service/modal-service';
+
+import { BaseModal } from '../../base-components/base-modal/base-modal';
+
+import WorkCenter from '../../models/work-center';
+import WorkingCalendar from '../../models/working-calendar';
+
+// Scope value of the default calendar in the scope selector (work centers use their id).
+const DEFAULT_SCOPE = '';
+
+@Component({
+  selector: 'app-working-calendar-panel',
+  imports: [
+    FormsModule,
+    ReactiveFormsModule,
+    NgSelectModule,
+    BaseModal
+  ],
+  templateUrl: './working-calendar-panel.html',
+  styleUrl: './working-calendar-panel.scss',
+})
+export class WorkingCalendarPanel {
+  @ViewChild('panel') panelElement!: ElementRef<HTMLElement>;
+
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly workingCalendarService: WorkingCalendarService = inject(WorkingCalendarService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly modalService: ModalService = inject(ModalService);
+
+  public isClosing: boolean = false;
+
+  selectedScope: string = DEFAULT_SCOPE;
+  calendarError: string | null = null;
+
+  newHoliday = new FormControl('', { nonNullable: true });
+
+  readonly weekdayOptions = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 0, label: 'Sun' },
+  ];
+
+  get scopeOptions(): { id: string; name: string }[] {
+    return [
+      { id: DEFAULT_SCOPE, name: 'Default calendar (all work centers)' },
+      ...this.workOrderService.activeWorkCenters().map(workCenter => ({ id: workCenter.id, name: workCenter.name })),
+    ];
+  }
+
+  get selectedWorkCenter(): WorkCenter | null {
+    return this.workOrderService.workCenters().find(workCenter => workCenter.id === this.selectedScope) ?? null;
+  }
+
+  get usesDefaultCalendar(): boolean {
+    return !!this.selectedWorkCenter && !this.selectedWorkCenter.calendar;
+  }
+
+  get calendar(): WorkingCalendar {
+    return this.selectedWorkCenter?.calendar ?? this.workingCalendarService.defaultCalendar();
+  }
+
+  /** * WHAT: Keeps keyboard focus inside the panel.
+   * HOW: Resolves the first and last focusable elements on every Tab press (the holiday
+   * list changes while the panel is open) and wraps focus around in both directions.
+   */
+  @HostListener('keydown', ['$event'])
+  handleKeyDown(event: KeyboardEvent): void {
+    if (event.key !== 'Tab' || !this.panelElement) return;
+
+    const focusableElements = this.panelElement.nativeElement.querySelectorAll<HTMLElement>(
+      'button:not([disabled]), input:not([disabled])'
+    );
+    const first = focusableElements[0];
+    const last = focusableElements[focusableElements.length - 1];
+
+    if (!event.shiftKey && document.activeElement === last) {
+      first.focus();
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      last.focus();
+      event.preventDefault();
+    }
+  }
+
+  onScopeChange(): void {
+    this.calendarError = null;
+    this.newHoliday.reset();
+  }
+
+  /** * WHAT: Switches a work center between the default calendar and its own.
+   * HOW: A new override starts as a copy of the default calendar.
+   */
+  onUseDefaultChange(useDefault: boolean): void {
+    if (!this.selectedWorkCenter) return;
+
+    const defaultCalendar = this.workingCalendarService.defaultCalendar();
+    this.workOrderService.setWorkCenterCalendar(
+      this.selectedWorkCenter.id,
+      useDefault ? null : { workingWeekdays: [...defaultCalendar.workingWeekdays], holidays: [...defaultCalendar.holidays] }
+    );
+  }
+
+  isWorkingWeekday(weekday: number): boolean {
+    return this.calendar.workingWeekdays.includes(weekday);
+  }
+
+  /** * WHAT: Turns a weekday into a working or non-working day.
+   * HOW: At least one working weekday must remain, otherwise no end date could ever be computed.
+   */
+  onWeekdayChange(weekday: number, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const workingWeekdays = input.checked
+      ? [...this.calendar.workingWeekdays, weekday].sort((a, b) => a - b)
+      : this.calendar.workingWeekdays.filter(workingWeekday => workingWeekday !== weekday);
+
+    if (!workingWeekdays.length) {
+      input.checked = true;
+      this.calendarError = 'Keep at least one working day in the week.';
+      return;
+    }
+
+    this.calendarError = null;
+    this.saveCalendar({ ...this.calendar, workingWeekdays });
+  }
+
+  onAddHoliday(): void {
+    const holiday = this.newHoliday.value;
+    if (!holiday) {
+      this.calendarError = 'Choose a date to add as a holiday.';
+      return;
+    }
+
+    this.calendarError = null;
+    this.newHoliday.reset();
+    if (this.calendar.holidays.includes(holiday)) return;
+
+    this.saveCalendar({ ...this.calendar, holidays: [...this.calendar.holidays, holiday].sort() });
+  }
+
+  onRemoveHoliday(holiday: string): void {
+    this.saveCalendar({ ...this.calendar, holidays: this.calendar.holidays.filter(existing => existing !== holiday) });
+  }
+
+  formatHoliday(holiday: string): string {
+    return this.timelineUtilService.parseIsoDate(holiday)
+      .toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  closePanel(): void {
+    this.isClosing = true;
+
+    setTimeout(() => {
+      this.modalService.close();
+    }, 250);
+  }
+
+  private saveCalendar(calendar: WorkingCalendar): void {
+    if (this.selectedWorkCenter) this.workOrderService.setWorkCenterCalendar(this.selectedWorkCenter.id, calendar);
+    else this.workingCalendarService.setDefaultCalendar(calendar);
+  }
+}
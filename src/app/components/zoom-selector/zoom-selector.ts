@@ -20,8 +20,12 @@ export class ZoomSelector {
   @Output() zoomChange = new EventEmitter<ZoomLevelEnum>();
 
   zoomOptions = [
+    { value: ZoomLevelEnum.HOUR, label: 'Hour' },
+    { value: ZoomLevelEnum.SHIFT, label: 'Shift' },
     { value: ZoomLevelEnum.DAY, label: 'Day' },
     { value: ZoomLevelEnum.WEEK, label: 'Week' },
     { value: ZoomLevelEnum.MONTH, label: 'Month' },
+    { value: ZoomLevelEnum.QUARTER, label: 'Quarter' },
+    { value: ZoomLevelEnum.YEAR, label: 'Year' },
   ];
 }
@@ -0,0 +1,5 @@
+export enum AuditActionEnum {
+  CREATE = 0,
+  UPDATE = 1,
+  DELETE = 2,
+}
@@ -0,0 +1,6 @@
+export enum BarDragModeEnum {
+  MOVE = 0,
+  RESIZE_START = 1,
+  RESIZE_END = 2,
+  PROGRESS = 3,
+}
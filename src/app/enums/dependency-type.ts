@@ -0,0 +1,4 @@
+export enum DependencyTypeEnum {
+  FINISH_TO_START = 0,
+  START_TO_START = 1,
+}
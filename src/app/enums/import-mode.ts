@@ -0,0 +1,4 @@
+export enum ImportModeEnum {
+  MERGE = 0,
+  REPLACE = 1,
+}
@@ -0,0 +1,6 @@
+export enum ScheduleSyncMessageTypeEnum {
+  ORDERS = 0,
+  WORK_CENTERS = 1,
+  STATUS_WORKFLOW = 2,
+  STATUSES = 3,
+}
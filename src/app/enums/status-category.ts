@@ -0,0 +1,6 @@
+export enum StatusCategoryEnum {
+  NOT_STARTED = 0,
+  ACTIVE = 1,
+  DONE = 2,
+  BLOCKED = 3,
+}
@@ -0,0 +1,4 @@
+export enum StorageBackendEnum {
+  LOCAL = 0,
+  HTTP = 1,
+}
@@ -0,0 +1,5 @@
+export enum TimelineDateFieldEnum {
+  SCHEDULE = 0,
+  START = 1,
+  END = 2,
+}
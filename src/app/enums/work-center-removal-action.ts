@@ -0,0 +1,4 @@
+export enum WorkCenterRemovalActionEnum {
+  ARCHIVE = 0,
+  DELETE = 1,
+}
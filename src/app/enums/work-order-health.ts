@@ -0,0 +1,5 @@
+export enum WorkOrderHealthEnum {
+  OVERDUE = 0,
+  LATE_START = 1,
+  LONG_BLOCKED = 2,
+}
@@ -0,0 +1,4 @@
+export enum WorkOrderPanelTabEnum {
+  DETAILS = 0,
+  HISTORY = 1,
+}
@@ -1,6 +1,7 @@
+// Ids of the built-in statuses; users can add their own (see StatusConfigService).
 export enum WorkOrderStatusEnum {
-  OPEN = 0,
-  IN_PROGRESS = 1,
-  COMPLETED = 2,
-  BLOCKED = 3,
+  OPEN = 'open',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  BLOCKED = 'blocked',
 }
@@ -2,4 +2,8 @@ export enum ZoomLevelEnum {
   DAY = 0,
   WEEK = 1,
   MONTH = 2,
+  HOUR = 3,
+  SHIFT = 4,
+  QUARTER = 5,
+  YEAR = 6,
 }
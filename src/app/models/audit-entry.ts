@@ -0,0 +1,15 @@
+import AuditFieldChange from './audit-field-change';
+import WorkOrder from './work-order';
+import { AuditActionEnum } from '../enums/audit-action';
+
+export default interface AuditEntry {
+  id: string;
+  orderId: string;
+  action: AuditActionEnum;
+  actor: string;
+  timestamp: string;
+  label: string;
+  fieldChanges: AuditFieldChange[];
+  // The order as it was right after the change (or right before a deletion), used to restore it.
+  snapshot: WorkOrder;
+}
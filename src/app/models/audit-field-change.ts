@@ -0,0 +1,7 @@
+import WorkOrder from './work-order';
+
+export default interface AuditFieldChange {
+  field: keyof WorkOrder;
+  before: unknown;
+  after: unknown;
+}
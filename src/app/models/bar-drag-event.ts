@@ -0,0 +1,6 @@
+import { BarDragModeEnum } from '../enums/bar-drag-mode';
+
+export default interface BarDragEvent {
+  pointerEvent: PointerEvent;
+  mode: BarDragModeEnum;
+}
@@ -0,0 +1,10 @@
+import WorkOrder from './work-order';
+import { BarDragModeEnum } from '../enums/bar-drag-mode';
+
+export default interface BarDragState {
+  order: WorkOrder;
+  mode: BarDragModeEnum;
+  pointerStartX: number;
+  previewOrder: WorkOrder;
+  hasMoved: boolean;
+}
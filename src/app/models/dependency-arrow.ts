@@ -0,0 +1,5 @@
+export default interface DependencyArrow {
+  id: string;
+  path: string;
+  isViolated: boolean;
+}
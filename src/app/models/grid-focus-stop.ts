@@ -0,0 +1,5 @@
+export default interface GridFocusStop {
+  workCenterId: string;
+  columnTime: number;
+  orderId: string | null;
+}
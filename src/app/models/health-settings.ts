@@ -0,0 +1,5 @@
+export default interface HealthSettings {
+  overdueGraceDays: number;
+  lateStartGraceDays: number;
+  blockedDays: number;
+}
@@ -0,0 +1,7 @@
+import WorkOrderChange from './work-order-change';
+
+export default interface HistoryEntry {
+  id: string;
+  label: string;
+  changes: WorkOrderChange[];
+}
@@ -0,0 +1,8 @@
+export default interface ImportFieldMapping {
+  id: string | null;
+  name: string | null;
+  workCenterId: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  status: string | null;
+}
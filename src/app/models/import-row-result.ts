@@ -0,0 +1,7 @@
+import WorkOrder from './work-order';
+
+export default interface ImportRowResult {
+  rowNumber: number;
+  order: WorkOrder;
+  errors: string[];
+}
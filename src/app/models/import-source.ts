@@ -0,0 +1,8 @@
+import WorkCenter from './work-center';
+
+export default interface ImportSource {
+  fileName: string;
+  columns: string[];
+  records: Record<string, unknown>[];
+  workCenters: WorkCenter[] | null;
+}
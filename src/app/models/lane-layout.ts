@@ -0,0 +1,4 @@
+export default interface LaneLayout {
+  laneByOrderId: Map<string, number>;
+  laneCount: number;
+}
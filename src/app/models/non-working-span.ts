@@ -0,0 +1,4 @@
+export default interface NonWorkingSpan {
+  start: Date;
+  end: Date;
+}
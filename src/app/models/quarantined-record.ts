@@ -0,0 +1,5 @@
+export default interface QuarantinedRecord {
+  quarantinedAt: string;
+  errors: string[];
+  record: unknown;
+}
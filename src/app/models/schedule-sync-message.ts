@@ -0,0 +1,13 @@
+import WorkCenter from './work-center';
+import StatusWorkflow from './status-workflow';
+import StatusDefinition from './status-definition';
+import WorkOrderChange from './work-order-change';
+import { ScheduleSyncMessageTypeEnum } from '../enums/schedule-sync-message-type';
+
+export default interface ScheduleSyncMessage {
+  type: ScheduleSyncMessageTypeEnum;
+  orderChanges?: WorkOrderChange[];
+  workCenters?: WorkCenter[];
+  statusWorkflow?: StatusWorkflow;
+  statuses?: StatusDefinition[];
+}
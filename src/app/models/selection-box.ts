@@ -0,0 +1,6 @@
+export default interface SelectionBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
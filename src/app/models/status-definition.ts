@@ -0,0 +1,9 @@
+import { StatusCategoryEnum } from '../enums/status-category';
+
+export default interface StatusDefinition {
+  id: string;
+  label: string;
+  // Hex color (#rrggbb); badges and bars derive their tints from it.
+  color: string;
+  category: StatusCategoryEnum;
+}
@@ -0,0 +1,4 @@
+export default interface StatusTransition {
+  from: string;
+  to: string;
+}
@@ -0,0 +1,6 @@
+import StatusTransition from './status-transition';
+
+export default interface StatusWorkflow {
+  // Allowed moves between the non-blocked statuses; blocking and unblocking follow fixed rules.
+  transitions: StatusTransition[];
+}
@@ -0,0 +1,4 @@
+export default interface StorageEnvelope {
+  schemaVersion: number;
+  records: unknown[];
+}
@@ -0,0 +1,5 @@
+export default interface StorageMigration {
+  toVersion: number;
+  description: string;
+  migrate(records: unknown[]): unknown[];
+}
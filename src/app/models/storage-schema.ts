@@ -0,0 +1,8 @@
+import StorageMigration from './storage-migration';
+
+export default interface StorageSchema {
+  label: string;
+  version: number;
+  migrations: StorageMigration[];
+  validate(record: unknown): string[];
+}
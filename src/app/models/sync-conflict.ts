@@ -0,0 +1,7 @@
+import WorkOrder from './work-order';
+
+export default interface SyncConflict {
+  orderId: string;
+  local: WorkOrder | null;
+  remote: WorkOrder | null;
+}
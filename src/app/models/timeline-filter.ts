@@ -0,0 +1,11 @@
+import { TimelineDateFieldEnum } from '../enums/timeline-date-field';
+
+export default interface TimelineFilter {
+  search: string;
+  statuses: string[];
+  workCenterIds: string[];
+  since: string | null;
+  until: string | null;
+  dateField: TimelineDateFieldEnum;
+  dimNonMatching: boolean;
+}
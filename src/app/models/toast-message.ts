@@ -0,0 +1,6 @@
+export default interface ToastMessage {
+  id: string;
+  message: string;
+  actionLabel?: string;
+  action?: () => void;
+}
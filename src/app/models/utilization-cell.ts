@@ -0,0 +1,5 @@
+export default interface UtilizationCell {
+  label: string;
+  percent: number;
+  level: 'idle' | 'low' | 'medium' | 'high' | 'full';
+}
@@ -1,4 +1,9 @@
+import WorkingCalendar from './working-calendar';
+
 export default interface WorkCenter {
   id: string;
   name: string;
+  capacity?: number;
+  archived?: boolean;
+  calendar?: WorkingCalendar;
 }
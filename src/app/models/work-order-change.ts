@@ -0,0 +1,6 @@
+import WorkOrder from './work-order';
+
+export default interface WorkOrderChange {
+  before: WorkOrder | null;
+  after: WorkOrder | null;
+}
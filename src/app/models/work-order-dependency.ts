@@ -0,0 +1,6 @@
+import { DependencyTypeEnum } from '../enums/dependency-type';
+
+export default interface WorkOrderDependency {
+  predecessorId: string;
+  type: DependencyTypeEnum;
+}
@@ -0,0 +1,6 @@
+import { WorkOrderHealthEnum } from '../enums/work-order-health';
+
+export default interface WorkOrderHealthWarning {
+  health: WorkOrderHealthEnum;
+  label: string;
+}
@@ -0,0 +1,19 @@
+import { Observable } from 'rxjs';
+
+import WorkOrder from './work-order';
+import WorkCenter from './work-center';
+import AuditEntry from './audit-entry';
+import StatusDefinition from './status-definition';
+
+export default interface WorkOrderStorage {
+  loadOrders(): Observable<WorkOrder[]>;
+  loadWorkCenters(): Observable<WorkCenter[]>;
+  saveWorkCenters(workCenters: WorkCenter[]): Observable<WorkCenter[]>;
+  loadStatuses(): Observable<StatusDefinition[]>;
+  saveStatuses(statuses: StatusDefinition[]): Observable<StatusDefinition[]>;
+  createOrder(order: WorkOrder): Observable<WorkOrder>;
+  updateOrder(order: WorkOrder): Observable<WorkOrder>;
+  deleteOrder(orderId: string): Observable<void>;
+  loadAuditEntries(orderId: string): Observable<AuditEntry[]>;
+  appendAuditEntries(entries: AuditEntry[]): Observable<AuditEntry[]>;
+}
@@ -1,4 +1,4 @@
-import { WorkOrderStatusEnum } from '../enums/work-order-status';
+import WorkOrderDependency from './work-order-dependency';
 
 export default interface WorkOrder {
   id: string;
@@ -6,5 +6,13 @@ export default interface WorkOrder {
   workCenterId: string;
   startDate: string;
   endDate: string;
-  status: WorkOrderStatusEnum;
+  // Id of a StatusDefinition; the built-in ones are listed in WorkOrderStatusEnum.
+  status: string;
+  dependencies?: WorkOrderDependency[];
+  blockedSince?: string;
+  blockedReason?: string;
+  blockedFromStatus?: string;
+  percentComplete?: number;
+  version?: number;
+  updatedAt?: string;
 }
@@ -0,0 +1,4 @@
+export default interface WorkingCalendar {
+  workingWeekdays: number[];
+  holidays: string[];
+}
@@ -0,0 +1,25 @@
+import { TestBed } from '@angular/core/testing';
+
+import { AnnouncerService } from './announcer.service';
+
+describe('AnnouncerService', () => {
+  let service: AnnouncerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AnnouncerService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should clear the live region before announcing the latest message', async () => {
+    service.announce('Deleted "Weld"');
+    service.announce('Deleted "Paint"');
+    expect(service.message()).toBe('');
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(service.message()).toBe('Deleted "Paint"');
+  });
+});
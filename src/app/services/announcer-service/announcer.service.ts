@@ -0,0 +1,27 @@
+import { Injectable, signal } from '@angular/core';
+
+// Long enough for screen readers to notice that the live region was emptied.
+const ANNOUNCE_DELAY_MS = 100;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AnnouncerService {
+  readonly message = signal('');
+
+  private announceTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  /** * WHAT: Reads a short message out through the app's polite live region.
+   * HOW: Clears the region first and sets the text after a short delay, so repeating
+   * the same message (e.g. two deletions in a row) is still announced.
+   */
+  announce(message: string): void {
+    if (this.announceTimeoutId) clearTimeout(this.announceTimeoutId);
+
+    this.message.set('');
+    this.announceTimeoutId = setTimeout(() => {
+      this.announceTimeoutId = null;
+      this.message.set(message);
+    }, ANNOUNCE_DELAY_MS);
+  }
+}
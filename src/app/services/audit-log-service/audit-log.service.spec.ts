@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+
+import { AuditLogService } from './audit-log.service';
+import { UserProfileService } from '../user-profile-service/user-profile.service';
+
+import WorkOrder from '../../models/work-order';
+import { AuditActionEnum } from '../../enums/audit-action';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+
+  const order: WorkOrder = {
+    id: 'wo1',
+    name: 'Weld frames',
+    workCenterId: 'wc1',
+    startDate: '2026-10-01',
+    endDate: '2026-10-08',
+    status: WorkOrderStatusEnum.OPEN,
+    version: 1,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AuditLogService);
+    TestBed.inject(UserProfileService).setName('Dana');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should log field-level changes per order, newest first', async () => {
+    const startedOrder = { ...order, status: WorkOrderStatusEnum.IN_PROGRESS, version: 2 };
+
+    await firstValueFrom(service.record('Create "Weld frames"', [{ before: null, after: order }]));
+    await firstValueFrom(service.record('Update "Weld frames"', [{ before: order, after: startedOrder }]));
+    await firstValueFrom(service.record('Update "Weld frames"', [{ before: startedOrder, after: { ...startedOrder, version: 3 } }]));
+
+    const entries = await firstValueFrom(service.loadEntriesForOrder('wo1'));
+    const [update, creation] = entries;
+    expect(entries.length).toBe(2);
+    expect(creation.action).toBe(AuditActionEnum.CREATE);
+    expect(update).toEqual(expect.objectContaining({
+      action: AuditActionEnum.UPDATE,
+      actor: 'Dana',
+      fieldChanges: [{ field: 'status', before: WorkOrderStatusEnum.OPEN, after: WorkOrderStatusEnum.IN_PROGRESS }],
+      snapshot: startedOrder,
+    }));
+  });
+});
@@ -0,0 +1,68 @@
+import { inject, Injectable } from '@angular/core';
+import { map, Observable, of } from 'rxjs';
+
+import { UserProfileService } from '../user-profile-service/user-profile.service';
+import { WORK_ORDER_STORAGE } from '../work-order-storage-service/work-order-storage.token';
+
+import AuditEntry from '../../models/audit-entry';
+import AuditFieldChange from '../../models/audit-field-change';
+import WorkOrder from '../../models/work-order';
+import WorkOrderChange from '../../models/work-order-change';
+import WorkOrderStorage from '../../models/work-order-storage';
+import { AuditActionEnum } from '../../enums/audit-action';
+
+// Bookkeeping fields that change on every save and say nothing about what was edited.
+const UNAUDITED_FIELDS: (keyof WorkOrder)[] = ['id', 'version', 'updatedAt'];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditLogService {
+  private readonly userProfileService: UserProfileService = inject(UserProfileService);
+  private readonly storage: WorkOrderStorage = inject(WORK_ORDER_STORAGE);
+
+  /** * WHAT: Appends one audit entry per order touched by a saved change set.
+   * HOW: Hands the entries to the storage backend, which owns the log and its size limit.
+   * Updates that only touched bookkeeping fields are not logged.
+   */
+  record(label: string, changes: WorkOrderChange[]): Observable<AuditEntry[]> {
+    const timestamp = new Date().toISOString();
+    const actor = this.userProfileService.actorName();
+
+    const newEntries: AuditEntry[] = changes
+      .filter(change => change.before || change.after)
+      .map(change => ({
+        id: crypto.randomUUID(),
+        orderId: (change.after ?? change.before)!.id,
+        action: !change.before ? AuditActionEnum.CREATE : !change.after ? AuditActionEnum.DELETE : AuditActionEnum.UPDATE,
+        actor,
+        timestamp,
+        label,
+        fieldChanges: this.diffFields(change.before, change.after),
+        snapshot: (change.after ?? change.before)!,
+      }))
+      .filter(entry => entry.action !== AuditActionEnum.UPDATE || entry.fieldChanges.length);
+
+    return newEntries.length ? this.storage.appendAuditEntries(newEntries) : of([]);
+  }
+
+  /** * WHAT: Lists the recorded changes of one order, newest first.
+   * HOW: Loaded from the storage backend on every call, so it includes what other tabs logged.
+   */
+  loadEntriesForOrder(orderId: string): Observable<AuditEntry[]> {
+    return this.storage.loadAuditEntries(orderId).pipe(map(entries => [...entries].reverse()));
+  }
+
+  /** * WHAT: Lists the fields whose value differs between two versions of an order.
+   * HOW: Compares serialized values, so nested fields such as dependencies are compared by content.
+   * A missing version (creation or deletion) contributes 'undefined' for every field.
+   */
+  private diffFields(before: WorkOrder | null, after: WorkOrder | null): AuditFieldChange[] {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]) as Set<keyof WorkOrder>;
+
+    return [...fields]
+      .filter(field => !UNAUDITED_FIELDS.includes(field))
+      .map(field => ({ field, before: before?.[field], after: after?.[field] }))
+      .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+  }
+}
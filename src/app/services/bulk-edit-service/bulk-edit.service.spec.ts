@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+
+import { BulkEditService } from './bulk-edit.service';
+import { WorkOrderService } from '../work-order-service/work-order.service';
+
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+
+describe('BulkEditService', () => {
+  let service: BulkEditService;
+  let workOrderService: WorkOrderService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(BulkEditService);
+    workOrderService = TestBed.inject(WorkOrderService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should reject only the orders that would exceed the target capacity', () => {
+    const [firstCenter, secondCenter] = workOrderService.workCenters();
+    workOrderService.addOrder({
+      name: 'Resident', workCenterId: secondCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-01-10', endDate: '2031-01-20',
+    });
+    workOrderService.addOrder({
+      name: 'Fits', workCenterId: firstCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-02-01', endDate: '2031-02-05',
+    });
+    workOrderService.addOrder({
+      name: 'Collides', workCenterId: firstCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-01-12', endDate: '2031-01-14',
+    });
+
+    const selection = workOrderService.orders().filter(order => order.name === 'Fits' || order.name === 'Collides');
+    const { accepted, rejected } = service.planUpdate(selection, order => ({ ...order, workCenterId: secondCenter.id }));
+
+    expect(accepted.map(order => order.name)).toEqual(['Fits']);
+    expect(rejected.map(order => order.name)).toEqual(['Collides']);
+  });
+
+  it('should reject orders that would start before a predecessor finishes', () => {
+    const [firstCenter, secondCenter] = workOrderService.workCenters();
+    workOrderService.addOrder({
+      name: 'Cutting', workCenterId: firstCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-01-01', endDate: '2031-01-10',
+    });
+    const cutting = workOrderService.orders().find(order => order.name === 'Cutting')!;
+    workOrderService.addOrder({
+      name: 'Welding', workCenterId: secondCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-01-10', endDate: '2031-01-15',
+      dependencies: [{ predecessorId: cutting.id, type: DependencyTypeEnum.FINISH_TO_START }],
+    });
+    workOrderService.addOrder({
+      name: 'Painting', workCenterId: secondCenter.id, status: WorkOrderStatusEnum.OPEN,
+      startDate: '2031-01-20', endDate: '2031-01-25',
+    });
+
+    const selection = workOrderService.orders().filter(order => order.name === 'Welding' || order.name === 'Painting');
+    const { accepted, rejected } = service.planUpdate(selection, order => ({
+      ...order,
+      startDate: order.name === 'Welding' ? '2031-01-05' : '2031-01-18',
+      endDate: order.name === 'Welding' ? '2031-01-10' : '2031-01-23',
+    }));
+
+    expect(accepted.map(order => order.name)).toEqual(['Painting']);
+    expect(rejected.map(order => order.name)).toEqual(['Welding']);
+  });
+});
@@ -0,0 +1,60 @@
+import { inject, Injectable } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { DependencyService } from '../dependency-service/dependency.service';
+
+import WorkOrder from '../../models/work-order';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class BulkEditService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly dependencyService: DependencyService = inject(DependencyService);
+
+  /** * WHAT: Applies the same edit to several orders and keeps only the ones that still fit.
+   * HOW: Validates every rescheduled order against a draft of the schedule where the other
+   * selected orders already sit at their new place. An order that would exceed its work
+   * center's capacity, or break a finish-to-start or start-to-start link with a predecessor
+   * or successor, is rejected and put back at its original place in the draft, and the
+   * remaining orders are checked again, until no further order has to be rejected.
+   * Orders whose dates and work center do not change (e.g. a status edit) are not validated.
+   */
+  planUpdate(orders: WorkOrder[], applyEdit: (order: WorkOrder) => WorkOrder): { accepted: WorkOrder[]; rejected: WorkOrder[] } {
+    const selectedIds = new Set(orders.map(order => order.id));
+    const unselectedOrders = this.workOrderService.orders().filter(order => !selectedIds.has(order.id));
+    const editedOrders = orders.map(order => ({ original: order, edited: applyEdit(order) }));
+    const rejectedIds = new Set<string>();
+
+    let hasNewRejection = true;
+    while (hasNewRejection) {
+      hasNewRejection = false;
+
+      const draftOrders = [
+        ...unselectedOrders,
+        ...editedOrders.map(({ original, edited }) => rejectedIds.has(original.id) ? original : edited),
+      ];
+
+      for (const { original, edited } of editedOrders) {
+        if (rejectedIds.has(original.id) || !this.isRescheduled(original, edited)) continue;
+
+        if (this.workOrderService.hasOverlap(edited.workCenterId, edited.startDate, edited.endDate, edited.id, draftOrders) ||
+          this.dependencyService.findDependencyConflicts(edited, draftOrders).length) {
+          rejectedIds.add(original.id);
+          hasNewRejection = true;
+        }
+      }
+    }
+
+    return {
+      accepted: editedOrders.filter(({ original }) => !rejectedIds.has(original.id)).map(({ edited }) => edited),
+      rejected: editedOrders.filter(({ original }) => rejectedIds.has(original.id)).map(({ original }) => original),
+    };
+  }
+
+  private isRescheduled(original: WorkOrder, edited: WorkOrder): boolean {
+    return original.startDate !== edited.startDate ||
+      original.endDate !== edited.endDate ||
+      original.workCenterId !== edited.workCenterId;
+  }
+}
@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CalendarExportService } from './calendar-export.service';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('CalendarExportService', () => {
+  let service: CalendarExportService;
+
+  const order: WorkOrder = {
+    id: 'wo-1', name: 'Weld frame, part A', workCenterId: 'wc-a',
+    startDate: '2026-03-30', endDate: '2026-03-31', status: WorkOrderStatusEnum.IN_PROGRESS,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CalendarExportService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should export orders as all-day events with stable UIDs', () => {
+    const calendar = service.buildCalendar(
+      [order],
+      [{ id: 'wc-a', name: 'Welding' }],
+      'Schedule',
+      new Date(Date.UTC(2026, 0, 2, 3, 4, 5))
+    );
+
+    expect(calendar).toContain('UID:wo-1@work-order-timeline\r\n');
+    expect(calendar).toContain('DTSTAMP:20260102T030405Z\r\n');
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20260330\r\n');
+    expect(calendar).toContain('DTEND;VALUE=DATE:20260331\r\n');
+    expect(calendar).toContain('SUMMARY:Weld frame\\, part A\r\n');
+    expect(calendar).toContain('STATUS:CONFIRMED\r\n');
+    expect(calendar.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+
+  it('should keep the exclusive end date and give same-day orders one day', () => {
+    const calendar = service.buildCalendar(
+      [{ ...order, endDate: '2026-03-30' }],
+      [{ id: 'wc-a', name: 'Welding' }],
+      'Schedule'
+    );
+
+    expect(calendar).toContain('DTSTART;VALUE=DATE:20260330\r\n');
+    expect(calendar).toContain('DTEND;VALUE=DATE:20260331\r\n');
+  });
+});
@@ -0,0 +1,145 @@
+import { inject, Injectable } from '@angular/core';
+
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+
+import WorkCenter from '../../models/work-center';
+import WorkOrder from '../../models/work-order';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+const PRODUCT_ID = '-//Naologic//Work Order Timeline//EN';
+const UID_DOMAIN = 'work-order-timeline';
+const MAX_LINE_OCTETS = 75;
+
+// VEVENT only knows TENTATIVE, CONFIRMED and CANCELLED (RFC 5545, 3.8.1.11).
+const EVENT_STATUSES: Record<StatusCategoryEnum, string> = {
+  [StatusCategoryEnum.NOT_STARTED]: 'TENTATIVE',
+  [StatusCategoryEnum.ACTIVE]: 'CONFIRMED',
+  [StatusCategoryEnum.DONE]: 'CONFIRMED',
+  [StatusCategoryEnum.BLOCKED]: 'TENTATIVE',
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CalendarExportService {
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  /** * WHAT: Builds an RFC 5545 calendar with one all-day event per work order.
+   * HOW: The UID is derived from the order ID only, so importing a newer export (or
+   * refreshing a subscribed feed) updates the existing events instead of duplicating them.
+   * Order end dates are exclusive, like DTEND, so they are exported as they are.
+   * Orders with a start or end time become timed events in floating (local) time instead.
+   */
+  buildCalendar(
+    orders: WorkOrder[],
+    workCenters: WorkCenter[],
+    calendarName: string,
+    generatedAt: Date = new Date()
+  ): string {
+    const timestamp = generatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(calendarName)}`,
+      ...orders.flatMap(order => {
+        const workCenterName = workCenters.find(workCenter => workCenter.id === order.workCenterId)?.name ?? '';
+        const status = this.statusConfigService.getStatus(order.status);
+
+        return [
+          'BEGIN:VEVENT',
+          `UID:${order.id}@${UID_DOMAIN}`,
+          `DTSTAMP:${timestamp}`,
+          ...this.formatEventDates(order),
+          `SUMMARY:${this.escapeText(order.name)}`,
+          `DESCRIPTION:${this.escapeText(`Status: ${status.label}\nWork center: ${workCenterName}`)}`,
+          `LOCATION:${this.escapeText(workCenterName)}`,
+          `CATEGORIES:${this.escapeText(status.label)}`,
+          `STATUS:${EVENT_STATUSES[status.category]}`,
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT',
+        ];
+      }),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /** * WHAT: Formats the event start and end.
+   * HOW: Date-only orders become all-day events. An order ending on its start day has no
+   * width on the timeline, but an all-day event must end after it starts (RFC 5545, 3.6.1),
+   * so it is exported as a single day.
+   */
+  private formatEventDates(order: WorkOrder): string[] {
+    if (!this.timelineUtilService.hasTime(order.startDate) && !this.timelineUtilService.hasTime(order.endDate)) {
+      const endDate = order.endDate > order.startDate
+        ? order.endDate
+        : this.timelineUtilService.shiftIsoDate(order.startDate, ZoomLevelEnum.DAY, 1);
+
+      return [
+        `DTSTART;VALUE=DATE:${this.formatDate(order.startDate)}`,
+        `DTEND;VALUE=DATE:${this.formatDate(endDate)}`,
+      ];
+    }
+
+    return [
+      `DTSTART:${this.formatDateTime(order.startDate)}`,
+      `DTEND:${this.formatDateTime(order.endDate)}`,
+    ];
+  }
+
+  private formatDate(dateIso: string): string {
+    return dateIso.slice(0, 10).replace(/-/g, '');
+  }
+
+  private formatDateTime(dateIso: string): string {
+    const dateTime = this.timelineUtilService.formatIsoDateTime(this.timelineUtilService.parseIsoDate(dateIso));
+    return `${dateTime.replace(/[-:]/g, '')}00`;
+  }
+
+  /** * WHAT: Escapes a TEXT value (RFC 5545, 3.3.11).
+   * HOW: Backslashes, semicolons and commas get a backslash, line breaks become '\n'.
+   */
+  private escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /** * WHAT: Splits content lines longer than 75 octets (RFC 5545, 3.1).
+   * HOW: Counts UTF-8 bytes per character so multi-byte characters are never cut,
+   * and starts every continuation line with a single space.
+   */
+  private foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const segments: string[] = [];
+    let currentSegment = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const charOctets = encoder.encode(char).length;
+      const maxOctets = segments.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+
+      if (currentOctets + charOctets > maxOctets) {
+        segments.push(currentSegment);
+        currentSegment = '';
+        currentOctets = 0;
+      }
+
+      currentSegment += char;
+      currentOctets += charOctets;
+    }
+
+    segments.push(currentSegment);
+    return segments.join('\r\n ');
+  }
+}
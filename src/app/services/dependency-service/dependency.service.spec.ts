@@ -0,0 +1,33 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DependencyService } from './dependency.service';
+import { WorkOrderService } from '../work-order-service/work-order.service';
+
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+
+describe('DependencyService', () => {
+  let service: DependencyService;
+  let workOrderService: WorkOrderService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DependencyService);
+    workOrderService = TestBed.inject(WorkOrderService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should detect circular dependencies', () => {
+    const [first, second] = workOrderService.orders();
+    workOrderService.updateOrder({
+      ...second,
+      dependencies: [{ predecessorId: first.id, type: DependencyTypeEnum.FINISH_TO_START }],
+    });
+
+    expect(service.wouldCreateCycle(first.id, [second.id])).toBe(true);
+    expect(service.wouldCreateCycle(second.id, [first.id])).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { inject, Injectable } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+
+import WorkOrder from '../../models/work-order';
+import WorkOrderDependency from '../../models/work-order-dependency';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DependencyService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+
+  /** * WHAT: Checks whether a single dependency link is respected.
+   * HOW: Finish-to-start requires the successor to start on/after the predecessor's end,
+   * start-to-start requires it to start on/after the predecessor's start.
+   */
+  isSatisfied(dependency: WorkOrderDependency, predecessor: WorkOrder, successor: WorkOrder): boolean {
+    const successorStart = this.getTime(successor.startDate);
+
+    return dependency.type === DependencyTypeEnum.START_TO_START
+      ? successorStart >= this.getTime(predecessor.startDate)
+      : successorStart >= this.getTime(predecessor.endDate);
+  }
+
+  getSuccessors(orderId: string, orders: WorkOrder[] = this.workOrderService.orders()): WorkOrder[] {
+    return orders.filter(order => order.dependencies?.some(dependency => dependency.predecessorId === orderId));
+  }
+
+  /** * WHAT: Flags an order that currently starts too early for one of its predecessors.
+   * HOW: Resolves each predecessor by ID (dangling links are ignored) and tests the link.
+   */
+  hasViolatedDependency(order: WorkOrder, orders: WorkOrder[] = this.workOrderService.orders()): boolean {
+    return (order.dependencies ?? []).some(dependency => {
+      const predecessor = orders.find(existingOrder => existingOrder.id === dependency.predecessorId);
+      return !!predecessor && !this.isSatisfied(dependency, predecessor, order);
+    });
+  }
+
+  /** * WHAT: Lists the orders whose link with 'candidate' would be broken by saving it.
+   * HOW: Substitutes the candidate into the schedule (the current one unless a draft is
+   * given), then checks both its own predecessors and every successor that depends on it.
+   */
+  findDependencyConflicts(candidate: WorkOrder, schedule: WorkOrder[] = this.workOrderService.orders()): WorkOrder[] {
+    const orders = schedule
+      .filter(order => order.id !== candidate.id)
+      .concat(candidate);
+
+    const brokenPredecessors = this.findPredecessorConflicts(candidate, orders);
+
+    const brokenSuccessors = this.getSuccessors(candidate.id, orders).filter(successor =>
+      successor.dependencies!.some(dependency =>
+        dependency.predecessorId === candidate.id && !this.isSatisfied(dependency, candidate, successor)
+      )
+    );
+
+    return [...brokenPredecessors, ...brokenSuccessors];
+  }
+
+  /** * WHAT: Lists the predecessors whose link 'candidate' would break by starting too early.
+   * HOW: Resolves each predecessor by ID (dangling links are ignored) and tests the link.
+   */
+  findPredecessorConflicts(candidate: WorkOrder, orders: WorkOrder[] = this.workOrderService.orders()): WorkOrder[] {
+    return (candidate.dependencies ?? [])
+      .map(dependency => ({ dependency, predecessor: orders.find(order => order.id === dependency.predecessorId) }))
+      .filter(({ dependency, predecessor }) => predecessor && !this.isSatisfied(dependency, predecessor, candidate))
+      .map(({ predecessor }) => predecessor!);
+  }
+
+  /** * WHAT: Detects whether giving 'orderId' these predecessors would close a loop.
+   * HOW: Depth-first walk up the predecessor chains of the proposed predecessors; reaching
+   * 'orderId' again means the order would (indirectly) depend on itself.
+   */
+  wouldCreateCycle(orderId: string, predecessorIds: string[], orders: WorkOrder[] = this.workOrderService.orders()): boolean {
+    const ordersById = new Map(orders.map(order => [order.id, order]));
+    const visitedIds = new Set<string>();
+    const pendingIds = [...predecessorIds];
+
+    while (pendingIds.length) {
+      const currentId = pendingIds.pop()!;
+      if (currentId === orderId) return true;
+      if (visitedIds.has(currentId)) continue;
+
+      visitedIds.add(currentId);
+      for (const dependency of ordersById.get(currentId)?.dependencies ?? []) {
+        pendingIds.push(dependency.predecessorId);
+      }
+    }
+
+    return false;
+  }
+
+  private getTime(dateIso: string): number {
+    return this.timelineUtilService.parseIsoDate(dateIso).getTime();
+  }
+}
@@ -0,0 +1,26 @@
+import { TestBed } from '@angular/core/testing';
+
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(HistoryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should ignore a targeted undo when the entry is no longer the latest', () => {
+    service.record({ id: 'h1', label: 'First', changes: [] });
+    service.record({ id: 'h2', label: 'Second', changes: [] });
+
+    expect(service.takeUndo('h1')).toBeNull();
+    expect(service.takeUndo('h2')?.label).toBe('Second');
+    expect(service.canRedo()).toBe(true);
+  });
+});
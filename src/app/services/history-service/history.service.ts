@@ -0,0 +1,128 @@
+import { computed, Injectable, signal } from '@angular/core';
+
+import { migrateLegacyOrder } from '../status-config-service/legacy-status-ids';
+
+import HistoryEntry from '../../models/history-entry';
+import WorkOrderChange from '../../models/work-order-change';
+
+const STORAGE_KEY = 'work-order-history';
+const MAX_HISTORY_SIZE = 50;
+
+interface PersistedHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class HistoryService {
+  private readonly undoStack = signal<HistoryEntry[]>([]);
+  private readonly redoStack = signal<HistoryEntry[]>([]);
+
+  readonly canUndo = computed(() => this.undoStack().length > 0);
+  readonly canRedo = computed(() => this.redoStack().length > 0);
+
+  constructor() {
+    const { undo, redo } = this.loadHistory();
+    this.undoStack.set(undo);
+    this.redoStack.set(redo);
+  }
+
+  /** * WHAT: Pushes a freshly applied mutation onto the undo stack.
+   * HOW: Trims the stack to MAX_HISTORY_SIZE (oldest first) and clears the redo
+   * stack, since a new action invalidates any previously undone branch.
+   */
+  record(entry: HistoryEntry): void {
+    this.undoStack.update(entries => [...entries, entry].slice(-MAX_HISTORY_SIZE));
+    this.redoStack.set([]);
+    this.persist();
+  }
+
+  /** * WHAT: Pops the latest entry so the caller can revert it.
+   * HOW: Moves the entry from the undo stack to the redo stack. When 'entryId' is given,
+   * nothing happens unless that entry is still the latest (e.g. a stale toast action).
+   */
+  takeUndo(entryId?: string): HistoryEntry | null {
+    const entry = this.undoStack().at(-1);
+    if (!entry || (entryId && entry.id !== entryId)) return null;
+
+    this.undoStack.update(entries => entries.slice(0, -1));
+    this.redoStack.update(entries => [...entries, entry].slice(-MAX_HISTORY_SIZE));
+    this.persist();
+    return entry;
+  }
+
+  /** * WHAT: Pops the latest undone entry so the caller can re-apply it.
+   * HOW: Moves the entry from the redo stack back to the undo stack.
+   */
+  takeRedo(): HistoryEntry | null {
+    const entry = this.redoStack().at(-1);
+    if (!entry) return null;
+
+    this.redoStack.update(entries => entries.slice(0, -1));
+    this.undoStack.update(entries => [...entries, entry].slice(-MAX_HISTORY_SIZE));
+    this.persist();
+    return entry;
+  }
+
+  /** * WHAT: Drops an entry whose mutation never reached the storage backend.
+   * HOW: Filters it out of both stacks so it can no longer be undone or redone.
+   */
+  remove(entryId: string): void {
+    this.undoStack.update(entries => entries.filter(entry => entry.id !== entryId));
+    this.redoStack.update(entries => entries.filter(entry => entry.id !== entryId));
+    this.persist();
+  }
+
+  /** * WHAT: Drops every entry that could no longer be applied cleanly (e.g. it restores a deleted status).
+   * HOW: Filters both stacks with the given predicate.
+   */
+  removeMatching(predicate: (entry: HistoryEntry) => boolean): void {
+    this.undoStack.update(entries => entries.filter(entry => !predicate(entry)));
+    this.redoStack.update(entries => entries.filter(entry => !predicate(entry)));
+    this.persist();
+  }
+
+  /** * WHAT: Builds the change set that reverts a recorded mutation.
+   * HOW: Swaps 'before' and 'after' on every change and reverses their order so
+   * multi-order entries unwind in the opposite sequence they were applied.
+   */
+  invert(changes: WorkOrderChange[]): WorkOrderChange[] {
+    return [...changes].reverse().map(change => ({ before: change.after, after: change.before }));
+  }
+
+  private loadHistory(): PersistedHistory {
+    const emptyHistory: PersistedHistory = { undo: [], redo: [] };
+    if (typeof localStorage === 'undefined') return emptyHistory;
+
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyHistory;
+
+    // Entries saved before statuses became configurable hold numeric statuses.
+    const migrateEntry = (entry: HistoryEntry): HistoryEntry => ({
+      ...entry,
+      changes: entry.changes.map(change => ({
+        before: change.before && migrateLegacyOrder(change.before),
+        after: change.after && migrateLegacyOrder(change.after),
+      })),
+    });
+
+    try {
+      const parsed = JSON.parse(raw) as PersistedHistory;
+      return {
+        undo: Array.isArray(parsed.undo) ? parsed.undo.map(migrateEntry) : [],
+        redo: Array.isArray(parsed.redo) ? parsed.redo.map(migrateEntry) : [],
+      };
+    } catch {
+      return emptyHistory;
+    }
+  }
+
+  private persist(): void {
+    if (typeof localStorage !== 'undefined') {
+      const history: PersistedHistory = { undo: this.undoStack(), redo: this.redoStack() };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    }
+  }
+}
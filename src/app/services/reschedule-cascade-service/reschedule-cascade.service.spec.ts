@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+
+import { RescheduleCascadeService } from './reschedule-cascade.service';
+import { WorkOrderService } from '../work-order-service/work-order.service';
+
+import WorkOrder from '../../models/work-order';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('RescheduleCascadeService', () => {
+  let service: RescheduleCascadeService;
+  let workOrderService: WorkOrderService;
+
+  const cutting: WorkOrder = {
+    id: 'cutting', name: 'Cutting', workCenterId: 'wc-a', status: WorkOrderStatusEnum.OPEN,
+    startDate: '2026-01-01', endDate: '2026-01-10',
+  };
+  const welding: WorkOrder = {
+    id: 'welding', name: 'Welding', workCenterId: 'wc-a', status: WorkOrderStatusEnum.OPEN,
+    startDate: '2026-01-10', endDate: '2026-01-15',
+  };
+  const painting: WorkOrder = {
+    id: 'painting', name: 'Painting', workCenterId: 'wc-b', status: WorkOrderStatusEnum.OPEN,
+    startDate: '2026-01-15', endDate: '2026-01-20',
+    dependencies: [{ predecessorId: 'welding', type: DependencyTypeEnum.FINISH_TO_START }],
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(RescheduleCascadeService);
+    workOrderService = TestBed.inject(WorkOrderService);
+
+    workOrderService.workCenters.set([{ id: 'wc-a', name: 'A' }, { id: 'wc-b', name: 'B' }]);
+    workOrderService.orders.set([cutting, welding, painting]);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should push later orders and dependent orders forward', () => {
+    const changes = service.planCascade({ ...cutting, endDate: '2026-01-12' });
+
+    expect(changes.map(change => change.after)).toEqual([
+      { ...cutting, endDate: '2026-01-12' },
+      { ...welding, startDate: '2026-01-12', endDate: '2026-01-17' },
+      { ...painting, startDate: '2026-01-17', endDate: '2026-01-22' },
+    ]);
+    expect(changes[1].before).toBe(welding);
+  });
+
+  it('should stop pushing orders that depend on each other in a cycle', () => {
+    const cyclicWelding: WorkOrder = {
+      ...welding, dependencies: [{ predecessorId: 'painting', type: DependencyTypeEnum.START_TO_START }],
+    };
+    workOrderService.orders.set([cutting, cyclicWelding, painting]);
+
+    const changes = service.planCascade({ ...cutting, endDate: '2026-01-12' });
+
+    expect(changes[0].after).toEqual({ ...cutting, endDate: '2026-01-12' });
+    expect(changes.map(change => change.after?.id)).toEqual(['cutting', 'welding', 'painting']);
+  });
+});
@@ -0,0 +1,161 @@
+import { inject, Injectable } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+
+import WorkOrder from '../../models/work-order';
+import WorkOrderChange from '../../models/work-order-change';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class RescheduleCascadeService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+
+  /** * WHAT: Checks whether an order fits among the orders that start before it.
+   * HOW: In "push later orders" mode only earlier orders constrain an edit, since any
+   * order starting at the same time or later is shifted out of the way by the cascade.
+   */
+  collidesWithEarlierOrders(candidate: WorkOrder): boolean {
+    const candidateStart = this.getTime(candidate.startDate);
+    const earlierOrders = this.workOrderService.orders()
+      .filter(order => this.getTime(order.startDate) < candidateStart);
+
+    return this.workOrderService.hasOverlap(
+      candidate.workCenterId,
+      candidate.startDate,
+      candidate.endDate,
+      candidate.id,
+      earlierOrders
+    );
+  }
+
+  /** * WHAT: Computes every order that has to move so 'updatedOrder' can be saved as is.
+   * HOW: Works on a draft copy of the schedule. Each time an order moves, the orders that
+   * follow it (later orders on its work center and its dependency successors) are placed
+   * again at their earliest valid start, and those that moved are queued in turn. Orders
+   * only ever move forward and keep their duration. The edited order comes first in the
+   * returned change set, followed by the pushed orders by start date.
+   * Orders in a dependency cycle (only possible in bad stored data) would keep pushing each
+   * other forward, so no order is queued more often than there are orders in the schedule.
+   */
+  planCascade(updatedOrder: WorkOrder): WorkOrderChange[] {
+    const originalOrders = new Map(this.workOrderService.orders().map(order => [order.id, order]));
+    const draftSchedule = new Map(originalOrders);
+    draftSchedule.set(updatedOrder.id, updatedOrder);
+
+    const pendingIds = [updatedOrder.id];
+    const visitCounts = new Map<string, number>();
+
+    while (pendingIds.length) {
+      const movedOrder = draftSchedule.get(pendingIds.shift()!)!;
+      const movedStart = this.getTime(movedOrder.startDate);
+
+      const followerIds = [...draftSchedule.values()]
+        .filter(order => order.id !== movedOrder.id && order.id !== updatedOrder.id)
+        .filter(order =>
+          (order.workCenterId === movedOrder.workCenterId && this.getTime(order.startDate) >= movedStart) ||
+          order.dependencies?.some(dependency => dependency.predecessorId === movedOrder.id)
+        )
+        .map(order => order.id);
+
+      for (const followerId of followerIds) {
+        const follower = draftSchedule.get(followerId)!;
+        const placedOrder = this.placeOrder(follower, [...draftSchedule.values()]);
+
+        const visitCount = visitCounts.get(followerId) ?? 0;
+        if (placedOrder.startDate !== follower.startDate && visitCount < draftSchedule.size) {
+          visitCounts.set(followerId, visitCount + 1);
+          draftSchedule.set(placedOrder.id, placedOrder);
+          pendingIds.push(placedOrder.id);
+        }
+      }
+    }
+
+    const pushedOrders = [...draftSchedule.values()]
+      .filter(order => order.id !== updatedOrder.id && order !== originalOrders.get(order.id))
+      .sort((a, b) => this.getTime(a.startDate) - this.getTime(b.startDate));
+
+    return [updatedOrder, ...pushedOrders].map(order => ({
+      before: originalOrders.get(order.id) ?? null,
+      after: order,
+    }));
+  }
+
+  /** * WHAT: Finds the earliest valid slot for an order at or after its current start.
+   * HOW: Starts from the latest start its predecessors allow, then, while the orders
+   * already running at that point fill the work center's capacity, jumps to the
+   * earliest end among them and tries again.
+   */
+  private placeOrder(order: WorkOrder, schedule: WorkOrder[]): WorkOrder {
+    let candidate = this.shiftOrderTo(order, this.getEarliestStart(order, schedule));
+
+    for (;;) {
+      const candidateStart = this.getTime(candidate.startDate);
+      const runningOrders = schedule.filter(other =>
+        other.id !== order.id &&
+        other.workCenterId === order.workCenterId &&
+        this.getTime(other.startDate) <= candidateStart &&
+        this.getTime(other.endDate) > candidateStart
+      );
+
+      const settledOrders = schedule.filter(other => this.getTime(other.startDate) <= candidateStart);
+      if (!this.workOrderService.hasOverlap(
+        candidate.workCenterId, candidate.startDate, candidate.endDate, order.id, settledOrders
+      )) {
+        return candidate;
+      }
+
+      const nextStart = runningOrders
+        .map(other => other.endDate)
+        .sort((a, b) => this.getTime(a) - this.getTime(b))[0];
+      if (!nextStart) return candidate;
+
+      candidate = this.shiftOrderTo(order, nextStart);
+    }
+  }
+
+  private getEarliestStart(order: WorkOrder, schedule: WorkOrder[]): string {
+    return (order.dependencies ?? []).reduce((earliestStart, dependency) => {
+      const predecessor = schedule.find(other => other.id === dependency.predecessorId);
+      if (!predecessor) return earliestStart;
+
+      const requiredStart = dependency.type === DependencyTypeEnum.START_TO_START
+        ? predecessor.startDate
+        : predecessor.endDate;
+      return this.getTime(requiredStart) > this.getTime(earliestStart) ? requiredStart : earliestStart;
+    }, order.startDate);
+  }
+
+  /** * WHAT: Moves an order to a new start date while keeping its duration.
+   * HOW: Date-only orders are shifted in whole days; as soon as a time of day is involved
+   * the end moves by the exact same number of milliseconds as the start.
+   */
+  private shiftOrderTo(order: WorkOrder, startDate: string): WorkOrder {
+    if (startDate === order.startDate) return order;
+
+    const shiftInMs = this.getTime(startDate) - this.getTime(order.startDate);
+    if (!this.timelineUtilService.hasTime(startDate) && !this.timelineUtilService.hasTime(order.endDate)) {
+      return {
+        ...order,
+        startDate,
+        endDate: this.timelineUtilService.shiftIsoDate(order.endDate, ZoomLevelEnum.DAY, Math.round(shiftInMs / MS_PER_DAY)),
+      };
+    }
+
+    return {
+      ...order,
+      startDate,
+      endDate: this.timelineUtilService.formatIsoDateTime(new Date(this.getTime(order.endDate) + shiftInMs)),
+    };
+  }
+
+  private getTime(dateIso: string): number {
+    return this.timelineUtilService.parseIsoDate(dateIso).getTime();
+  }
+}
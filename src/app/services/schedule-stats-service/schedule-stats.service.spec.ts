@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ScheduleStatsService } from './schedule-stats.service';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('ScheduleStatsService', () => {
+  let service: ScheduleStatsService;
+
+  const createOrder = (id: string, startDate: string, endDate: string, status: WorkOrderStatusEnum): WorkOrder => ({
+    id, name: id, workCenterId: 'wc-a', startDate, endDate, status,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScheduleStatsService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should flag unfinished orders ending before today as overdue', () => {
+    expect(service.isOverdue(createOrder('a', '2026-03-01', '2026-03-09', WorkOrderStatusEnum.IN_PROGRESS), '2026-03-10')).toBe(true);
+    expect(service.isOverdue(createOrder('b', '2026-03-01', '2026-03-09', WorkOrderStatusEnum.COMPLETED), '2026-03-10')).toBe(false);
+    expect(service.isOverdue(createOrder('c', '2026-03-01', '2026-03-10', WorkOrderStatusEnum.OPEN), '2026-03-10')).toBe(false);
+  });
+
+  it('should find orders starting within a window and average their lead time', () => {
+    const orders = [
+      createOrder('a', '2026-03-10', '2026-03-12', WorkOrderStatusEnum.OPEN),
+      createOrder('b', '2026-03-16', '2026-03-20', WorkOrderStatusEnum.OPEN),
+      createOrder('c', '2026-03-17', '2026-03-18', WorkOrderStatusEnum.OPEN),
+    ];
+
+    const { orders: startingOrders, until } = service.getStartingWithin(orders, 7, '2026-03-10');
+
+    expect(until).toBe('2026-03-16');
+    expect(startingOrders.map(order => order.id)).toEqual(['a', 'b']);
+    expect(service.getAverageLeadTimeDays(orders)).toBeCloseTo(7 / 3);
+  });
+});
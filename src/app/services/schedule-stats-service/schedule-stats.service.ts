@@ -0,0 +1,69 @@
+import { inject, Injectable } from '@angular/core';
+
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+
+import WorkOrder from '../../models/work-order';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScheduleStatsService {
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  getTodayIso(): string {
+    return this.timelineUtilService.formatIsoDate(new Date());
+  }
+
+  /** * WHAT: An order is overdue when its end date is before today and its status is not of the done category.
+   * HOW: Compares calendar days only, so the check matches the timeline's "ending in range" filter.
+   */
+  isOverdue(order: WorkOrder, todayIso: string = this.getTodayIso()): boolean {
+    return !this.statusConfigService.isInCategory(order.status, StatusCategoryEnum.DONE) && order.endDate.slice(0, 10) < todayIso;
+  }
+
+  countByStatus(orders: WorkOrder[]): Map<string, number> {
+    return this.countBy(orders, order => order.status);
+  }
+
+  countByWorkCenter(orders: WorkOrder[]): Map<string, number> {
+    return this.countBy(orders, order => order.workCenterId);
+  }
+
+  /** * WHAT: Orders starting within the next 'days' days, today included.
+   * HOW: Returns the matching orders along with the last day of the window (for the timeline link).
+   */
+  getStartingWithin(orders: WorkOrder[], days: number, todayIso: string = this.getTodayIso()): { orders: WorkOrder[]; until: string } {
+    const until = this.timelineUtilService.shiftIsoDate(todayIso, ZoomLevelEnum.DAY, days - 1);
+    const startingOrders = orders.filter(order => {
+      const startDay = order.startDate.slice(0, 10);
+      return startDay >= todayIso && startDay <= until;
+    });
+
+    return { orders: startingOrders, until };
+  }
+
+  /** * WHAT: Average lead time in days, or null without orders.
+   * HOW: Orders carry no creation date, so the lead time is the scheduled span from start to end.
+   */
+  getAverageLeadTimeDays(orders: WorkOrder[]): number | null {
+    if (!orders.length) return null;
+
+    const totalMs = orders.reduce((total, order) =>
+      total + this.timelineUtilService.parseIsoDate(order.endDate).getTime() -
+        this.timelineUtilService.parseIsoDate(order.startDate).getTime(), 0);
+
+    return totalMs / orders.length / MS_PER_DAY;
+  }
+
+  private countBy<K>(orders: WorkOrder[], getKey: (order: WorkOrder) => K): Map<K, number> {
+    const counts = new Map<K, number>();
+    orders.forEach(order => counts.set(getKey(order), (counts.get(getKey(order)) ?? 0) + 1));
+    return counts;
+  }
+}
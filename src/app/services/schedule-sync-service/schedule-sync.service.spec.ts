@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ScheduleSyncService } from './schedule-sync.service';
+
+import ScheduleSyncMessage from '../../models/schedule-sync-message';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+
+describe('ScheduleSyncService', () => {
+  let service: ScheduleSyncService;
+
+  const message: ScheduleSyncMessage = {
+    type: ScheduleSyncMessageTypeEnum.WORK_CENTERS,
+    workCenters: [{ id: 'wc-a', name: 'Welding' }],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScheduleSyncService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should post published messages to the other tabs', async () => {
+    const otherTab = new BroadcastChannel('work-order-schedule');
+    const received = new Promise<ScheduleSyncMessage>(resolve => otherTab.onmessage = event => resolve(event.data));
+
+    service.publish(message);
+
+    expect(await received).toEqual(message);
+    otherTab.close();
+  });
+
+  it('should emit the messages posted by the other tabs', async () => {
+    const otherTab = new BroadcastChannel('work-order-schedule');
+    const received = new Promise<ScheduleSyncMessage>(resolve => service.messages$.subscribe(resolve));
+
+    otherTab.postMessage(message);
+
+    expect(await received).toEqual(message);
+    otherTab.close();
+  });
+});
@@ -0,0 +1,36 @@
+import { DestroyRef, inject, Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+
+import ScheduleSyncMessage from '../../models/schedule-sync-message';
+
+const CHANNEL_NAME = 'work-order-schedule';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScheduleSyncService {
+  private readonly channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+  private readonly incomingMessages = new Subject<ScheduleSyncMessage>();
+
+  // WHAT: Schedule changes made in the other open tabs of this app.
+  // HOW: A BroadcastChannel never echoes a message back to the tab that posted it.
+  readonly messages$: Observable<ScheduleSyncMessage> = this.incomingMessages.asObservable();
+
+  constructor() {
+    if (!this.channel) return;
+
+    this.channel.onmessage = (event: MessageEvent<ScheduleSyncMessage>) => this.receive(event.data);
+    inject(DestroyRef).onDestroy(() => this.channel?.close());
+  }
+
+  /** * WHAT: Tells the other tabs about a change that has been saved.
+   * HOW: A no-op in environments without BroadcastChannel, where every tab stays on its own.
+   */
+  publish(message: ScheduleSyncMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  receive(message: ScheduleSyncMessage): void {
+    this.incomingMessages.next(message);
+  }
+}
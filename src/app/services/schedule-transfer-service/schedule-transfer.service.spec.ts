@@ -0,0 +1,109 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ScheduleTransferService } from './schedule-transfer.service';
+import { WorkOrderService } from '../work-order-service/work-order.service';
+
+import { ImportModeEnum } from '../../enums/import-mode';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('ScheduleTransferService', () => {
+  let service: ScheduleTransferService;
+  let workOrderService: WorkOrderService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScheduleTransferService);
+    workOrderService = TestBed.inject(WorkOrderService);
+
+    workOrderService.workCenters.set([{ id: 'wc-a', name: 'A' }]);
+    workOrderService.orders.set([{
+      id: 'existing', name: 'Existing, "quoted"', workCenterId: 'wc-a',
+      startDate: '2026-01-01', endDate: '2026-01-10', status: WorkOrderStatusEnum.IN_PROGRESS,
+    }]);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should read back its own CSV export', () => {
+    const source = service.readImportFile('work-orders.csv', service.exportOrdersCsv())!;
+    const [result] = service.validateRows(source, service.suggestMapping(source.columns), ImportModeEnum.REPLACE);
+
+    expect(result.errors).toEqual([]);
+    expect(result.order).toEqual(workOrderService.orders()[0]);
+  });
+
+  it('should report per-row errors', () => {
+    const source = service.readImportFile('orders.csv', [
+      'name,workCenterId,startDate,endDate,status',
+      'Bad dates,wc-a,2026-02-10,2026-02-01,Open',
+      'Unknown,wc-x,2026/02/01,2026-02-05,Paused',
+      'Overlap,wc-a,2026-01-05,2026-01-08,1',
+    ].join('\n'))!;
+
+    const results = service.validateRows(source, service.suggestMapping(source.columns), ImportModeEnum.MERGE);
+
+    expect(results.map(result => result.errors)).toEqual([
+      ['End date is before the start date.'],
+      ['Unknown work center "wc-x".', 'Start date must use the YYYY-MM-DD or YYYY-MM-DDTHH:mm format.', 'Unknown status "Paused".'],
+      ['Overlaps other orders beyond the capacity of its work center.'],
+    ]);
+  });
+
+  it('should accept sub-day times in any time zone and reject impossible ones', () => {
+    const source = service.readImportFile('orders.csv', [
+      'name,workCenterId,startDate,endDate,status',
+      'Spring forward,wc-a,2026-03-29T02:30,2026-03-29T06:00,Open',
+      'Late,wc-a,2026-04-01T25:00,2026-04-02,Open',
+    ].join('\n'))!;
+
+    const results = service.validateRows(source, service.suggestMapping(source.columns), ImportModeEnum.MERGE);
+
+    expect(results.map(result => result.errors)).toEqual([
+      [],
+      ['Start date must use the YYYY-MM-DD or YYYY-MM-DDTHH:mm format.'],
+    ]);
+  });
+
+  it('should report invalid progress values instead of dropping them', () => {
+    const source = service.readImportFile('orders.csv', [
+      'name,workCenterId,startDate,endDate,status,percentComplete',
+      'Half done,wc-a,2026-02-01,2026-02-05,In Progress,49.6',
+      'Too far,wc-a,2026-02-10,2026-02-15,In Progress,120',
+      'Not a number,wc-a,2026-02-20,2026-02-25,In Progress,half',
+      'Untracked,wc-a,2026-03-01,2026-03-05,Open,',
+    ].join('\n'))!;
+
+    const results = service.validateRows(source, service.suggestMapping(source.columns), ImportModeEnum.MERGE);
+
+    expect(results.map(result => result.errors)).toEqual([
+      [],
+      ['Percent complete must be a number from 0 to 100, not "120".'],
+      ['Percent complete must be a number from 0 to 100, not "half".'],
+      [],
+    ]);
+    expect(results[0].order.percentComplete).toBe(50);
+    expect('percentComplete' in results[3].order).toBe(false);
+  });
+
+  it('should reject unknown and circular dependencies', () => {
+    const order = { workCenterId: 'wc-a', status: WorkOrderStatusEnum.OPEN };
+    const source = service.readImportFile('orders.json', JSON.stringify([
+      { ...order, id: 'a', name: 'A', startDate: '2026-02-01', endDate: '2026-02-05', dependencies: [{ predecessorId: 'b', type: 0 }] },
+      { ...order, id: 'b', name: 'B', startDate: '2026-02-10', endDate: '2026-02-15', dependencies: [{ predecessorId: 'a', type: 0 }] },
+      { ...order, id: 'c', name: 'C', startDate: '2026-02-20', endDate: '2026-02-25', dependencies: [{ predecessorId: 'missing', type: 0 }] },
+      { ...order, id: 'd', name: 'D', startDate: '2026-03-01', endDate: '2026-03-05', dependencies: [{ predecessorId: 'existing', type: 0 }] },
+    ]))!;
+
+    const results = service.validateRows(source, service.suggestMapping(source.columns), ImportModeEnum.MERGE);
+
+    expect(results.map(result => result.errors)).toEqual([
+      ['Dependencies form a cycle.'],
+      ['Dependencies form a cycle.'],
+      ['Unknown predecessor "missing".'],
+      [],
+    ]);
+  });
+});
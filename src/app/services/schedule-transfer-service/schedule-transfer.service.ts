@@ -0,0 +1,335 @@
+import { inject, Injectable } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { isIsoDateValue, TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+import { DependencyService } from '../dependency-service/dependency.service';
+import { LEGACY_STATUS_IDS } from '../status-config-service/legacy-status-ids';
+
+import ImportFieldMapping from '../../models/import-field-mapping';
+import ImportRowResult from '../../models/import-row-result';
+import ImportSource from '../../models/import-source';
+import WorkCenter from '../../models/work-center';
+import WorkOrder from '../../models/work-order';
+import WorkOrderDependency from '../../models/work-order-dependency';
+import { ImportModeEnum } from '../../enums/import-mode';
+import { StatusCategoryEnum } from '../../enums/status-category';
+
+const ORDER_CSV_COLUMNS = ['id', 'name', 'workCenterId', 'startDate', 'endDate', 'status', 'percentComplete', 'blockedReason'];
+const WORK_CENTER_CSV_COLUMNS = ['id', 'name', 'capacity', 'archived'];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScheduleTransferService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+  private readonly dependencyService: DependencyService = inject(DependencyService);
+
+  /** * WHAT: Serializes the whole schedule into a single JSON document.
+   * HOW: Uses the same shapes as the REST API, so the file can be imported back as is.
+   */
+  exportJson(): string {
+    return JSON.stringify({
+      workCenters: this.workOrderService.workCenters(),
+      orders: this.workOrderService.orders(),
+    }, null, 2);
+  }
+
+  /** * WHAT: Serializes the work orders into CSV, one order per line.
+   * HOW: Writes the status as its label (e.g. In Progress) to keep the file readable;
+   * the importer accepts labels as well as status ids.
+   */
+  exportOrdersCsv(): string {
+    return this.toCsv([
+      ORDER_CSV_COLUMNS,
+      ...this.workOrderService.orders().map(order => [
+        order.id,
+        order.name,
+        order.workCenterId,
+        order.startDate,
+        order.endDate,
+        this.statusConfigService.getLabel(order.status),
+        order.percentComplete === undefined ? '' : String(order.percentComplete),
+        order.blockedReason ?? '',
+      ]),
+    ]);
+  }
+
+  exportWorkCentersCsv(): string {
+    return this.toCsv([
+      WORK_CENTER_CSV_COLUMNS,
+      ...this.workOrderService.workCenters().map(workCenter => [
+        workCenter.id,
+        workCenter.name,
+        String(workCenter.capacity ?? 1),
+        String(!!workCenter.archived),
+      ]),
+    ]);
+  }
+
+  /** * WHAT: Hands a generated file to the browser as a download.
+   * HOW: Wraps the content in a Blob and clicks a temporary object-URL link.
+   */
+  downloadFile(fileName: string, content: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /** * WHAT: Turns an uploaded file into generic records for the mapping step.
+   * HOW: '.json' files may hold '{ orders, workCenters }' or a bare order array; anything
+   * else is read as CSV with a header line. Returns null when nothing usable was found.
+   */
+  readImportFile(fileName: string, content: string): ImportSource | null {
+    if (fileName.toLowerCase().endsWith('.json')) {
+      try {
+        const parsed = JSON.parse(content);
+        const records = Array.isArray(parsed) ? parsed : parsed?.orders;
+        if (!Array.isArray(records) || !records.every(record => record && typeof record === 'object')) return null;
+
+        const workCenters = Array.isArray(parsed?.workCenters)
+          ? (parsed.workCenters as WorkCenter[]).filter(workCenter => typeof workCenter?.id === 'string' && typeof workCenter?.name === 'string')
+          : null;
+
+        return {
+          fileName,
+          columns: [...new Set(records.flatMap(record => Object.keys(record)))],
+          records,
+          workCenters,
+        };
+      } catch {
+        return null;
+      }
+    }
+
+    const [header, ...lines] = this.parseCsv(content);
+    if (!header?.length || !lines.length) return null;
+
+    return {
+      fileName,
+      columns: header,
+      records: lines.map(cells => Object.fromEntries(header.map((column, index) => [column, cells[index] ?? '']))),
+      workCenters: null,
+    };
+  }
+
+  /** * WHAT: Guesses which source column feeds which order field.
+   * HOW: Compares names case-insensitively with separators removed, so "Work Center Id",
+   * "work_center_id" and "workCenterId" all map to the same field.
+   */
+  suggestMapping(columns: string[]): ImportFieldMapping {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const findColumn = (...candidates: string[]) =>
+      columns.find(column => candidates.includes(normalize(column))) ?? null;
+
+    return {
+      id: findColumn('id', 'orderid', 'workorderid'),
+      name: findColumn('name', 'ordername', 'workordername'),
+      workCenterId: findColumn('workcenterid', 'workcenter'),
+      startDate: findColumn('startdate', 'start'),
+      endDate: findColumn('enddate', 'end'),
+      status: findColumn('status'),
+    };
+  }
+
+  /** * WHAT: Validates every imported record before anything is written.
+   * HOW: Builds the order for each record through the mapping and collects per-row errors
+   * (missing name, date format and order, unknown work center or status, invalid progress,
+   * duplicate ids, unknown or circular dependencies).
+   * Valid rows are added to a draft schedule, starting from the current orders when merging
+   * or from nothing when replacing, so overlaps are checked with 'hasOverlap' against both
+   * existing orders and earlier rows of the same file.
+   */
+  validateRows(source: ImportSource, mapping: ImportFieldMapping, mode: ImportModeEnum): ImportRowResult[] {
+    const knownWorkCenterIds = new Set(
+      [...this.workOrderService.activeWorkCenters(), ...(source.workCenters ?? [])]
+        .filter(workCenter => !workCenter.archived)
+        .map(workCenter => workCenter.id)
+    );
+    const currentOrders = this.workOrderService.orders();
+    let draftOrders = mode === ImportModeEnum.REPLACE ? [] : [...currentOrders];
+    const seenIds = new Set<string>();
+
+    const results = source.records.map((record, index) => {
+      const read = (field: keyof ImportFieldMapping) => {
+        const column = mapping[field];
+        return column ? String(record[column] ?? '').trim() : '';
+      };
+
+      const errors: string[] = [];
+      const id = read('id') || crypto.randomUUID();
+      const rawStatus = read('status');
+      const defaultStatus = this.statusConfigService.getDefaultStatusId(StatusCategoryEnum.NOT_STARTED) ?? '';
+      const status = mapping.status ? this.parseStatus(rawStatus) : defaultStatus;
+
+      const existingOrder = mode === ImportModeEnum.MERGE ? currentOrders.find(order => order.id === id) : undefined;
+      const order: WorkOrder = {
+        ...existingOrder,
+        id,
+        name: read('name'),
+        workCenterId: read('workCenterId'),
+        startDate: read('startDate'),
+        endDate: read('endDate'),
+        status: status ?? defaultStatus,
+      };
+
+      const dependencies = this.parseDependencies(record['dependencies']);
+      if (dependencies) order.dependencies = dependencies;
+
+      const rawPercentComplete = String(record['percentComplete'] ?? '').trim();
+      const percentComplete = rawPercentComplete ? this.parsePercentComplete(rawPercentComplete) : null;
+      if (percentComplete !== null) order.percentComplete = percentComplete;
+
+      const blockedReason = String(record['blockedReason'] ?? '').trim();
+      if (blockedReason && this.statusConfigService.isInCategory(order.status, StatusCategoryEnum.BLOCKED)) {
+        order.blockedReason = blockedReason;
+      }
+
+      if (!order.name) errors.push('Name is missing.');
+
+      if (!order.workCenterId) errors.push('Work center is missing.');
+      else if (!knownWorkCenterIds.has(order.workCenterId)) errors.push(`Unknown work center "${order.workCenterId}".`);
+
+      const hasValidStart = isIsoDateValue(order.startDate);
+      const hasValidEnd = isIsoDateValue(order.endDate);
+      if (!hasValidStart) errors.push('Start date must use the YYYY-MM-DD or YYYY-MM-DDTHH:mm format.');
+      if (!hasValidEnd) errors.push('End date must use the YYYY-MM-DD or YYYY-MM-DDTHH:mm format.');
+      if (hasValidStart && hasValidEnd &&
+        this.timelineUtilService.parseIsoDate(order.endDate) < this.timelineUtilService.parseIsoDate(order.startDate)) {
+        errors.push('End date is before the start date.');
+      }
+
+      if (status === null) errors.push(rawStatus ? `Unknown status "${rawStatus}".` : 'Status is missing.');
+
+      if (rawPercentComplete && percentComplete === null) {
+        errors.push(`Percent complete must be a number from 0 to 100, not "${rawPercentComplete}".`);
+      }
+
+      if (seenIds.has(id)) errors.push(`Duplicate id "${id}" in the file.`);
+      seenIds.add(id);
+
+      if (!errors.length && this.workOrderService.hasOverlap(order.workCenterId, order.startDate, order.endDate, id, draftOrders)) {
+        errors.push('Overlaps other orders beyond the capacity of its work center.');
+      }
+
+      if (!errors.length) {
+        draftOrders = draftOrders.filter(draftOrder => draftOrder.id !== id).concat(order);
+      }
+
+      return { rowNumber: index + 1, order, errors };
+    });
+
+    this.validateDependencies(results, mode === ImportModeEnum.MERGE ? currentOrders : []);
+    return results;
+  }
+
+  /** * WHAT: Reads a status written as a label ("QA hold"), a status id ("in_progress"), or in
+   * the formats of older exports: an enum name ("IN_PROGRESS") or a number (2).
+   * HOW: Labels and ids are matched case-insensitively; returns null when no configured status matches.
+   */
+  private parseStatus(value: string): string | null {
+    const normalizedValue = /^\d+$/.test(value) ? LEGACY_STATUS_IDS[Number(value)] ?? '' : value.toLowerCase();
+    const legacyKey = normalizedValue.replace(/[\s-]+/g, '_');
+
+    return this.statusConfigService.statuses().find(status =>
+      status.label.toLowerCase() === normalizedValue || status.id.toLowerCase() === normalizedValue || status.id === legacyKey
+    )?.id ?? null;
+  }
+
+  /** * WHAT: Checks the dependencies of the imported rows against the schedule the import produces.
+   * HOW: Every predecessor must be an order of the file or, when merging, an existing order,
+   * and following the predecessors must never lead back to the row itself. A cycle would make
+   * the "push later orders" cascade shift its orders forever.
+   */
+  private validateDependencies(results: ImportRowResult[], keptOrders: WorkOrder[]): void {
+    const ordersById = new Map([...keptOrders, ...results.map(result => result.order)].map(order => [order.id, order]));
+    const importedSchedule = [...ordersById.values()];
+
+    for (const { order, errors } of results) {
+      const predecessorIds = (order.dependencies ?? []).map(dependency => dependency.predecessorId);
+      const unknownIds = predecessorIds.filter(predecessorId => !ordersById.has(predecessorId));
+
+      unknownIds.forEach(predecessorId => errors.push(`Unknown predecessor "${predecessorId}".`));
+      if (!unknownIds.length && this.dependencyService.wouldCreateCycle(order.id, predecessorIds, importedSchedule)) {
+        errors.push('Dependencies form a cycle.');
+      }
+    }
+  }
+
+  private parseDependencies(value: unknown): WorkOrderDependency[] | null {
+    if (!Array.isArray(value)) return null;
+
+    return value.filter((dependency): dependency is WorkOrderDependency =>
+      typeof dependency?.predecessorId === 'string' && (dependency.type === 0 || dependency.type === 1)
+    );
+  }
+
+  /** * WHAT: Reads a progress value, written as a number (JSON) or text (CSV).
+   * HOW: Rounds to a whole percent; returns null for anything that is not a number from 0 to 100.
+   */
+  private parsePercentComplete(value: string): number | null {
+    const percentComplete = Number(value);
+    return Number.isFinite(percentComplete) && percentComplete >= 0 && percentComplete <= 100
+      ? Math.round(percentComplete)
+      : null;
+  }
+
+  /** * WHAT: Minimal RFC 4180 reader.
+   * HOW: Walks the text character by character, honouring quoted cells (which may contain
+   * commas, line breaks and doubled quotes) and dropping blank lines.
+   */
+  private parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let isQuoted = false;
+
+    for (let index = 0; index < content.length; index++) {
+      const char = content[index];
+
+      if (isQuoted) {
+        if (char === '"' && content[index + 1] === '"') {
+          cell += '"';
+          index++;
+        } else if (char === '"') {
+          isQuoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        isQuoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[index + 1] === '\n') index++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell);
+    rows.push(row);
+
+    return rows
+      .map(cells => cells.map(value => value.trim()))
+      .filter(cells => cells.some(value => value !== ''));
+  }
+
+  private toCsv(rows: string[][]): string {
+    return rows
+      .map(cells => cells.map(value => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join(','))
+      .join('\r\n');
+  }
+}
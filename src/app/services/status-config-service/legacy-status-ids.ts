@@ -0,0 +1,28 @@
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+// Statuses used to be saved as the numeric values of a fixed enum.
+export const LEGACY_STATUS_IDS: Record<number, string> = {
+  0: WorkOrderStatusEnum.OPEN,
+  1: WorkOrderStatusEnum.IN_PROGRESS,
+  2: WorkOrderStatusEnum.COMPLETED,
+  3: WorkOrderStatusEnum.BLOCKED,
+};
+
+/** * WHAT: Maps a status saved before statuses became configurable to its status id.
+ * HOW: Known numeric values are translated; anything else is returned unchanged.
+ */
+export function migrateLegacyStatus<T>(status: T): T | string {
+  return typeof status === 'number' && LEGACY_STATUS_IDS[status] !== undefined ? LEGACY_STATUS_IDS[status] : status;
+}
+
+/** * WHAT: Brings an order saved before statuses became configurable (undo history, audit snapshots) up to date.
+ * HOW: Migrates 'status' and 'blockedFromStatus'; the rest of the order is untouched.
+ */
+export function migrateLegacyOrder(order: WorkOrder): WorkOrder {
+  return {
+    ...order,
+    status: migrateLegacyStatus(order.status),
+    ...(order.blockedFromStatus !== undefined && { blockedFromStatus: migrateLegacyStatus(order.blockedFromStatus) }),
+  };
+}
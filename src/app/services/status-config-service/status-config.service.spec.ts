@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StatusConfigService } from './status-config.service';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+import { DEFAULT_STATUSES } from '../work-order-storage-service/seed-data';
+
+import ScheduleSyncMessage from '../../models/schedule-sync-message';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+
+describe('StatusConfigService', () => {
+  let service: StatusConfigService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatusConfigService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should persist custom statuses and resolve them by category', () => {
+    service.addStatus(' QA hold ', '#aa3300', StatusCategoryEnum.BLOCKED);
+
+    const qaHold = service.statuses().at(-1)!;
+    expect(qaHold.label).toBe('QA hold');
+    expect(service.isInCategory(qaHold.id, StatusCategoryEnum.BLOCKED)).toBe(true);
+    expect(service.getStatusIds(StatusCategoryEnum.BLOCKED)).toEqual([WorkOrderStatusEnum.BLOCKED, qaHold.id]);
+    expect(JSON.parse(localStorage.getItem('work-order-statuses')!).records).toEqual(service.statuses());
+  });
+
+  it('should keep at least one status per category', () => {
+    expect(service.deleteStatus(WorkOrderStatusEnum.COMPLETED)).toBe(false);
+
+    service.addStatus('Shipped', '#08a268', StatusCategoryEnum.DONE);
+    expect(service.deleteStatus(WorkOrderStatusEnum.COMPLETED)).toBe(true);
+    expect(service.getDefaultStatusId(StatusCategoryEnum.DONE)).toBe(service.statuses().at(-1)!.id);
+  });
+
+  it('should fall back to the default statuses when the saved ones are invalid', () => {
+    localStorage.setItem('work-order-statuses', JSON.stringify([{ id: 'x', label: 'X', color: 'red', category: 0 }]));
+
+    expect(TestBed.runInInjectionContext(() => new StatusConfigService()).statuses()).toEqual(DEFAULT_STATUSES);
+  });
+
+  it('should migrate statuses saved as a bare array', () => {
+    const statuses = [...DEFAULT_STATUSES, { id: 'qa', label: 'QA hold', color: '#aa3300', category: StatusCategoryEnum.BLOCKED }];
+    localStorage.setItem('work-order-statuses', JSON.stringify(statuses));
+
+    expect(TestBed.runInInjectionContext(() => new StatusConfigService()).statuses()).toEqual(statuses);
+  });
+
+  it('should share saved statuses with the other tabs and take theirs', async () => {
+    const otherTab = new BroadcastChannel('work-order-schedule');
+    const received = new Promise<ScheduleSyncMessage>(resolve => otherTab.onmessage = event => resolve(event.data));
+
+    service.updateStatus(WorkOrderStatusEnum.OPEN, { label: 'To do' });
+    expect(await received).toEqual({ type: ScheduleSyncMessageTypeEnum.STATUSES, statuses: service.statuses() });
+    otherTab.close();
+
+    TestBed.inject(ScheduleSyncService).receive({ type: ScheduleSyncMessageTypeEnum.STATUSES, statuses: DEFAULT_STATUSES });
+    expect(service.getLabel(WorkOrderStatusEnum.OPEN)).toBe('Open');
+  });
+});
@@ -0,0 +1,137 @@
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+
+import { WORK_ORDER_STORAGE } from '../work-order-storage-service/work-order-storage.token';
+import { DEFAULT_STATUSES } from '../work-order-storage-service/seed-data';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+import { ToastService } from '../toast-service/toast.service';
+
+import StatusDefinition from '../../models/status-definition';
+import WorkOrderStorage from '../../models/work-order-storage';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+
+const STATUS_CATEGORIES = [StatusCategoryEnum.NOT_STARTED, StatusCategoryEnum.ACTIVE, StatusCategoryEnum.DONE, StatusCategoryEnum.BLOCKED];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class StatusConfigService {
+  private readonly storage: WorkOrderStorage = inject(WORK_ORDER_STORAGE);
+  private readonly scheduleSyncService: ScheduleSyncService = inject(ScheduleSyncService);
+  private readonly toastService: ToastService = inject(ToastService);
+
+  // WHAT: The statuses orders can have, in display order.
+  // HOW: Saved through the storage backend; the built-in ones keep their WorkOrderStatusEnum ids.
+  readonly statuses = signal<StatusDefinition[]>(DEFAULT_STATUSES);
+
+  readonly statusOptions = computed(() =>
+    this.statuses().map(status => ({ value: status.id, label: status.label, color: status.color, category: status.category }))
+  );
+
+  constructor() {
+    this.loadStatuses();
+
+    // Status lists saved in another tab replace this one as is, like work center lists.
+    this.scheduleSyncService.messages$
+      .pipe(takeUntilDestroyed())
+      .subscribe(message => {
+        if (message.type === ScheduleSyncMessageTypeEnum.STATUSES && message.statuses) this.statuses.set(message.statuses);
+      });
+  }
+
+  /** * WHAT: Resolves a status id to its definition.
+   * HOW: Orders can outlive a status (e.g. imported from another setup), so unknown ids get a
+   * neutral stand-in labelled with the id rather than breaking the rendering.
+   */
+  getStatus(statusId: string): StatusDefinition {
+    return this.statuses().find(status => status.id === statusId) ??
+      { id: statusId, label: statusId, color: '#687196', category: StatusCategoryEnum.ACTIVE };
+  }
+
+  getLabel(statusId: string): string {
+    return this.getStatus(statusId).label;
+  }
+
+  isInCategory(statusId: string, category: StatusCategoryEnum): boolean {
+    return this.getStatus(statusId).category === category;
+  }
+
+  getStatusIds(category: StatusCategoryEnum): string[] {
+    return this.statuses().filter(status => status.category === category).map(status => status.id);
+  }
+
+  /** * WHAT: The status used when the app has to pick one of a category (new orders, suggestions).
+   * HOW: The first status of the category in display order.
+   */
+  getDefaultStatusId(category: StatusCategoryEnum): string | null {
+    return this.statuses().find(status => status.category === category)?.id ?? null;
+  }
+
+  addStatus(label: string, color: string, category: StatusCategoryEnum): void {
+    this.saveStatuses([...this.statuses(), { id: crypto.randomUUID(), label: label.trim(), color, category }]);
+  }
+
+  updateStatus(statusId: string, changes: Partial<Omit<StatusDefinition, 'id'>>): void {
+    this.saveStatuses(this.statuses().map(status => status.id === statusId ? { ...status, ...changes } : status));
+  }
+
+  /** * WHAT: Moves a status one place up (-1) or down (1) in every list of statuses.
+   * HOW: Swaps it with its neighbour, since list order is the display order.
+   */
+  moveStatus(statusId: string, direction: -1 | 1): void {
+    const statuses = [...this.statuses()];
+    const currentIndex = statuses.findIndex(status => status.id === statusId);
+    const targetIndex = currentIndex + direction;
+    if (currentIndex === -1 || targetIndex < 0 || targetIndex >= statuses.length) return;
+
+    [statuses[currentIndex], statuses[targetIndex]] = [statuses[targetIndex], statuses[currentIndex]];
+    this.saveStatuses(statuses);
+  }
+
+  /** * WHAT: Removes a status definition.
+   * HOW: Blocked (returns false) for the last status of a category, since new orders, progress
+   * suggestions and blocking all rely on having one. Orders still using it must be moved first.
+   */
+  deleteStatus(statusId: string): boolean {
+    const status = this.statuses().find(candidate => candidate.id === statusId);
+    if (!status || this.getStatusIds(status.category).length < 2) return false;
+
+    this.saveStatuses(this.statuses().filter(candidate => candidate.id !== statusId));
+    return true;
+  }
+
+  /** * WHAT: Optimistically replaces the status list.
+   * HOW: Sets the Signal first, hands the saved list to the other tabs and restores the
+   * previous list if the backend rejects it.
+   */
+  private saveStatuses(statuses: StatusDefinition[]): void {
+    const previousStatuses = this.statuses();
+    this.statuses.set(statuses);
+
+    this.storage.saveStatuses(statuses).subscribe({
+      next: savedStatuses => this.scheduleSyncService.publish({
+        type: ScheduleSyncMessageTypeEnum.STATUSES,
+        statuses: savedStatuses,
+      }),
+      error: () => {
+        this.statuses.set(previousStatuses);
+        this.toastService.show('Your status changes could not be saved and have been rolled back.');
+      },
+    });
+  }
+
+  /** * WHAT: Reads the saved statuses.
+   * HOW: Keeps the defaults when the list cannot be loaded or a category lost its last status,
+   * since new orders, progress suggestions and blocking all rely on having one.
+   */
+  private loadStatuses(): void {
+    this.storage.loadStatuses().subscribe({
+      next: statuses => {
+        const coversCategories = STATUS_CATEGORIES.every(category => statuses.some(status => status.category === category));
+        this.statuses.set(coversCategories ? statuses : DEFAULT_STATUSES);
+      },
+      error: () => this.toastService.show('The saved statuses could not be loaded; the default statuses are shown.'),
+    });
+  }
+}
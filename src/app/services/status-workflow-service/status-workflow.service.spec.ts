@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StatusWorkflowService } from './status-workflow.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+
+import WorkOrder from '../../models/work-order';
+import ScheduleSyncMessage from '../../models/schedule-sync-message';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+
+describe('StatusWorkflowService', () => {
+  let service: StatusWorkflowService;
+
+  const order: WorkOrder = {
+    id: 'wo1',
+    name: 'Weld frames',
+    workCenterId: 'wc1',
+    startDate: '2026-10-01',
+    endDate: '2026-10-08',
+    status: WorkOrderStatusEnum.COMPLETED,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StatusWorkflowService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should only allow configured transitions and require a reason to block', () => {
+    expect(service.validateChange(order, { ...order, status: WorkOrderStatusEnum.OPEN }))
+      .toBe('"Weld frames" cannot move from Completed to Open.');
+    expect(service.validateChange(order, { ...order, status: WorkOrderStatusEnum.BLOCKED }))
+      .toBe('A reason is required to block "Weld frames".');
+    expect(service.validateChange(order, { ...order, status: WorkOrderStatusEnum.BLOCKED, blockedReason: 'QA hold' }))
+      .toBeNull();
+  });
+
+  it('should only release a blocked order to the status it was blocked from', () => {
+    const blockedOrder = { ...order, status: WorkOrderStatusEnum.BLOCKED, blockedFromStatus: WorkOrderStatusEnum.IN_PROGRESS };
+
+    expect(service.getAllowedStatuses(blockedOrder)).toEqual([WorkOrderStatusEnum.IN_PROGRESS, WorkOrderStatusEnum.BLOCKED]);
+  });
+
+  it('should apply the blocking rules to custom statuses of the blocked category', () => {
+    const statusConfigService = TestBed.inject(StatusConfigService);
+    statusConfigService.addStatus('Awaiting material', '#b13600', StatusCategoryEnum.BLOCKED);
+    const awaitingMaterial = statusConfigService.statuses().at(-1)!.id;
+    const activeOrder = { ...order, status: WorkOrderStatusEnum.IN_PROGRESS };
+
+    expect(service.validateChange(activeOrder, { ...activeOrder, status: awaitingMaterial }))
+      .toBe('A reason is required to block "Weld frames".');
+    expect(service.getAllowedStatuses({ status: awaitingMaterial, blockedFromStatus: WorkOrderStatusEnum.IN_PROGRESS }))
+      .toEqual([WorkOrderStatusEnum.IN_PROGRESS, WorkOrderStatusEnum.BLOCKED, awaitingMaterial]);
+  });
+
+  it('should share a saved workflow with the other tabs and take theirs', async () => {
+    const otherTab = new BroadcastChannel('work-order-schedule');
+    const received = new Promise<ScheduleSyncMessage>(resolve => otherTab.onmessage = event => resolve(event.data));
+    const workflow = { transitions: [{ from: WorkOrderStatusEnum.OPEN, to: WorkOrderStatusEnum.COMPLETED }] };
+
+    service.setWorkflow(workflow);
+    expect(await received).toEqual({ type: ScheduleSyncMessageTypeEnum.STATUS_WORKFLOW, statusWorkflow: workflow });
+    otherTab.close();
+
+    TestBed.inject(ScheduleSyncService).receive({ type: ScheduleSyncMessageTypeEnum.STATUS_WORKFLOW, statusWorkflow: { transitions: [] } });
+    expect(service.workflow()).toEqual({ transitions: [] });
+  });
+});
@@ -0,0 +1,128 @@
+import { inject, Injectable, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+
+import { StatusConfigService } from '../status-config-service/status-config.service';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+import { migrateLegacyStatus } from '../status-config-service/legacy-status-ids';
+
+import StatusWorkflow from '../../models/status-workflow';
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+
+const STORAGE_KEY = 'work-order-status-workflow';
+
+export const DEFAULT_STATUS_WORKFLOW: StatusWorkflow = {
+  transitions: [
+    { from: WorkOrderStatusEnum.OPEN, to: WorkOrderStatusEnum.IN_PROGRESS },
+    { from: WorkOrderStatusEnum.IN_PROGRESS, to: WorkOrderStatusEnum.OPEN },
+    { from: WorkOrderStatusEnum.IN_PROGRESS, to: WorkOrderStatusEnum.COMPLETED },
+  ],
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class StatusWorkflowService {
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+  private readonly scheduleSyncService: ScheduleSyncService = inject(ScheduleSyncService);
+
+  readonly workflow = signal<StatusWorkflow>(this.loadWorkflow());
+
+  constructor() {
+    // Workflows saved in another tab replace this one as is, like work center lists.
+    this.scheduleSyncService.messages$
+      .pipe(takeUntilDestroyed())
+      .subscribe(message => {
+        if (message.type === ScheduleSyncMessageTypeEnum.STATUS_WORKFLOW && message.statusWorkflow) {
+          this.workflow.set(message.statusWorkflow);
+        }
+      });
+  }
+
+  /** * WHAT: Saves the workflow and hands it to the other open tabs.
+   * HOW: The receiving tabs only update their signal, since the saved copy is shared.
+   */
+  setWorkflow(workflow: StatusWorkflow): void {
+    this.workflow.set(workflow);
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(workflow));
+    }
+
+    this.scheduleSyncService.publish({ type: ScheduleSyncMessageTypeEnum.STATUS_WORKFLOW, statusWorkflow: workflow });
+  }
+
+  /** * WHAT: Drops the transitions of a status that no longer exists.
+   * HOW: Called when a status definition is deleted.
+   */
+  forgetStatus(statusId: string): void {
+    const { transitions } = this.workflow();
+    this.setWorkflow({ transitions: transitions.filter(transition => transition.from !== statusId && transition.to !== statusId) });
+  }
+
+  /** * WHAT: Checks whether an order may move to a status.
+   * HOW: Keeping the status is always allowed, and so is moving to a status of the blocked
+   * category (the reason is checked by 'validateChange'). A blocked order can only go back
+   * to the status it was blocked from; orders blocked before that was recorded may take
+   * any status. Every other move must be listed in the configured transitions.
+   */
+  canTransition(order: Pick<WorkOrder, 'status' | 'blockedFromStatus'>, toStatus: string): boolean {
+    if (order.status === toStatus || this.statusConfigService.isInCategory(toStatus, StatusCategoryEnum.BLOCKED)) return true;
+
+    if (this.statusConfigService.isInCategory(order.status, StatusCategoryEnum.BLOCKED)) {
+      return order.blockedFromStatus === undefined || order.blockedFromStatus === toStatus;
+    }
+
+    return this.workflow().transitions.some(transition => transition.from === order.status && transition.to === toStatus);
+  }
+
+  /** * WHAT: Lists the ids of the statuses an order can be given (all of them for a new order).
+   * HOW: Keeps the configured order, so the options read the same everywhere.
+   */
+  getAllowedStatuses(order: Pick<WorkOrder, 'status' | 'blockedFromStatus'> | null): string[] {
+    return this.statusConfigService.statuses()
+      .map(status => status.id)
+      .filter(statusId => !order || this.canTransition(order, statusId));
+  }
+
+  /** * WHAT: Explains why a created or edited order breaks the workflow, or returns null.
+   * HOW: A newly blocked order needs a reason, and an existing one must follow 'canTransition'.
+   */
+  validateChange(before: WorkOrder | null, after: WorkOrder): string | null {
+    const isBlocked = (status: string | undefined) =>
+      status !== undefined && this.statusConfigService.isInCategory(status, StatusCategoryEnum.BLOCKED);
+    const isNewlyBlocked = isBlocked(after.status) && !isBlocked(before?.status);
+    if (isNewlyBlocked && !after.blockedReason?.trim()) {
+      return `A reason is required to block "${after.name}".`;
+    }
+
+    if (before && !this.canTransition(before, after.status)) {
+      return `"${after.name}" cannot move from ${this.statusConfigService.getLabel(before.status)} to ${this.statusConfigService.getLabel(after.status)}.`;
+    }
+
+    return null;
+  }
+
+  /** * WHAT: Reads the saved workflow.
+   * HOW: Workflows saved before statuses became configurable use numeric statuses; those are mapped to ids.
+   */
+  private loadWorkflow(): StatusWorkflow {
+    if (typeof localStorage === 'undefined') return DEFAULT_STATUS_WORKFLOW;
+
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as StatusWorkflow | null;
+      if (!parsed || !Array.isArray(parsed.transitions)) return DEFAULT_STATUS_WORKFLOW;
+
+      return {
+        transitions: parsed.transitions.map(transition => ({
+          from: migrateLegacyStatus(transition.from),
+          to: migrateLegacyStatus(transition.to),
+        })),
+      };
+    } catch {
+      return DEFAULT_STATUS_WORKFLOW;
+    }
+  }
+}
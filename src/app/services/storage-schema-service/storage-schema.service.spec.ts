@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StorageSchemaService } from './storage-schema.service';
+import { WORK_ORDER_STORAGE_SCHEMA } from '../work-order-storage-service/storage-schemas';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('StorageSchemaService', () => {
+  let service: StorageSchemaService;
+
+  const validOrder: WorkOrder = {
+    id: 'wo1',
+    name: 'Weld frames',
+    workCenterId: 'wc1',
+    startDate: '2026-10-01',
+    endDate: '2026-10-08',
+    status: WorkOrderStatusEnum.OPEN,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StorageSchemaService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should migrate a legacy array with numeric statuses and quarantine invalid records', () => {
+    const invalidOrder = { ...validOrder, id: 'wo2', endDate: '2026-02-30', status: 0 };
+    localStorage.setItem('work-orders', JSON.stringify([{ ...validOrder, status: 0 }, invalidOrder]));
+
+    expect(service.read<WorkOrder>('work-orders', WORK_ORDER_STORAGE_SCHEMA)).toEqual([validOrder]);
+    expect(JSON.parse(localStorage.getItem('work-orders')!)).toEqual({ schemaVersion: 3, records: [validOrder] });
+
+    const quarantine = JSON.parse(localStorage.getItem('work-orders-quarantine')!);
+    expect(quarantine[0].record).toEqual({ ...invalidOrder, status: WorkOrderStatusEnum.OPEN });
+    expect(quarantine[0].errors).toEqual(['Invalid end date.']);
+    expect(service.recoveryNotice()).toContain('1 saved work orders failed validation');
+  });
+
+  it('should accept a sub-day order inside a daylight saving time gap', () => {
+    const springForwardOrder = { ...validOrder, startDate: '2026-03-29T02:30', endDate: '2026-03-29T06:00' };
+    localStorage.setItem('work-orders', JSON.stringify({ schemaVersion: 3, records: [springForwardOrder] }));
+
+    expect(service.read<WorkOrder>('work-orders', WORK_ORDER_STORAGE_SCHEMA)).toEqual([springForwardOrder]);
+    expect(localStorage.getItem('work-orders-quarantine')).toBeNull();
+  });
+
+  it('should back up an unreadable payload instead of discarding it', () => {
+    localStorage.setItem('work-orders', '{"schemaVersion": 2, "records": [');
+
+    expect(service.read<WorkOrder>('work-orders', WORK_ORDER_STORAGE_SCHEMA)).toBeNull();
+
+    const backupKey = Object.keys(localStorage).find(key => key.startsWith('work-orders-backup-'))!;
+    expect(localStorage.getItem(backupKey)).toBe('{"schemaVersion": 2, "records": [');
+    expect(service.recoveryNotice()).toContain(backupKey);
+  });
+});
@@ -0,0 +1,115 @@
+import { Injectable, signal } from '@angular/core';
+
+import StorageEnvelope from '../../models/storage-envelope';
+import StorageSchema from '../../models/storage-schema';
+import QuarantinedRecord from '../../models/quarantined-record';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class StorageSchemaService {
+  // WHAT: Explains what happened to saved data that could not be loaded as is.
+  // HOW: Shown by the App until dismissed; the data itself is kept in the backup/quarantine keys.
+  readonly recoveryNotice = signal<string | null>(null);
+
+  /** * WHAT: Loads a saved collection, upgrading and checking it on the way.
+   * HOW:
+   * 1. Unreadable payloads (broken JSON, unknown layout, or a schema newer than this app)
+   *    are copied to a timestamped backup key and null is returned, so the caller falls back
+   *    to its defaults without the original data being lost.
+   * 2. The envelope is migrated step by step up to the current schema version.
+   * 3. Every record is validated; invalid ones move to the '<key>-quarantine' list.
+   * The cleaned collection is written back whenever it was migrated or records were removed.
+   */
+  read<T>(storageKey: string, schema: StorageSchema): T[] | null {
+    const raw = localStorage.getItem(storageKey);
+    if (raw === null) return null;
+
+    const envelope = this.parseEnvelope(raw);
+    if (!envelope || envelope.schemaVersion > schema.version) {
+      const backupKey = this.backUp(storageKey, raw);
+      this.addNotice(`The saved ${schema.label} could not be read and the defaults were loaded. The original data was kept under "${backupKey}".`);
+      return null;
+    }
+
+    const records = this.migrate(envelope, schema);
+    const validRecords: T[] = [];
+    const quarantinedRecords: QuarantinedRecord[] = [];
+    const quarantinedAt = new Date().toISOString();
+
+    for (const record of records) {
+      const errors = schema.validate(record);
+      if (errors.length) quarantinedRecords.push({ quarantinedAt, errors, record });
+      else validRecords.push(record as T);
+    }
+
+    if (quarantinedRecords.length) {
+      this.quarantine(storageKey, quarantinedRecords);
+      this.addNotice(`${quarantinedRecords.length} saved ${schema.label} failed validation and were set aside under "${storageKey}-quarantine".`);
+    }
+
+    if (envelope.schemaVersion !== schema.version || quarantinedRecords.length) {
+      this.write(storageKey, schema, validRecords);
+    }
+
+    return validRecords;
+  }
+
+  write<T>(storageKey: string, schema: StorageSchema, records: T[]): void {
+    const envelope: StorageEnvelope = { schemaVersion: schema.version, records };
+    localStorage.setItem(storageKey, JSON.stringify(envelope));
+  }
+
+  dismissNotice(): void {
+    this.recoveryNotice.set(null);
+  }
+
+  /** * WHAT: Recognizes the saved layouts.
+   * HOW: A bare array is the pre-envelope format (version 1); anything that is neither that
+   * nor an envelope with a numeric version and a records array is treated as corrupt.
+   */
+  private parseEnvelope(raw: string): StorageEnvelope | null {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (Array.isArray(parsed)) return { schemaVersion: 1, records: parsed };
+
+      const envelope = parsed as Partial<StorageEnvelope> | null;
+      return envelope && Number.isInteger(envelope.schemaVersion) && Array.isArray(envelope.records)
+        ? { schemaVersion: envelope.schemaVersion!, records: envelope.records }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private migrate(envelope: StorageEnvelope, schema: StorageSchema): unknown[] {
+    return [...schema.migrations]
+      .sort((a, b) => a.toVersion - b.toVersion)
+      .filter(migration => migration.toVersion > envelope.schemaVersion && migration.toVersion <= schema.version)
+      .reduce((records, migration) => migration.migrate(records), envelope.records);
+  }
+
+  private backUp(storageKey: string, raw: string): string {
+    const backupKey = `${storageKey}-backup-${new Date().toISOString()}`;
+    localStorage.setItem(backupKey, raw);
+    return backupKey;
+  }
+
+  private quarantine(storageKey: string, quarantinedRecords: QuarantinedRecord[]): void {
+    const quarantineKey = `${storageKey}-quarantine`;
+    let previousRecords: QuarantinedRecord[] = [];
+
+    try {
+      const parsed = JSON.parse(localStorage.getItem(quarantineKey) ?? '[]');
+      if (Array.isArray(parsed)) previousRecords = parsed;
+    } catch {
+      // A damaged quarantine list is replaced rather than blocking the load
+    }
+
+    localStorage.setItem(quarantineKey, JSON.stringify([...previousRecords, ...quarantinedRecords]));
+  }
+
+  private addNotice(message: string): void {
+    this.recoveryNotice.update(notice => notice ? `${notice} ${message}` : message);
+  }
+}
@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+
+import { EMPTY_TIMELINE_FILTER, TimelineFilterService } from './timeline-filter.service';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { TimelineDateFieldEnum } from '../../enums/timeline-date-field';
+
+describe('TimelineFilterService', () => {
+  let service: TimelineFilterService;
+
+  const order: WorkOrder = {
+    id: 'wo-1', name: 'Weld frame', workCenterId: 'wc-a',
+    startDate: '2026-03-10', endDate: '2026-03-20', status: WorkOrderStatusEnum.BLOCKED,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideRouter([])]
+    });
+    service = TestBed.inject(TimelineFilterService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should match on name, status, work center and date range', () => {
+    expect(service.matches(order, { ...EMPTY_TIMELINE_FILTER, search: 'FRAME' })).toBe(true);
+    expect(service.matches(order, { ...EMPTY_TIMELINE_FILTER, statuses: [WorkOrderStatusEnum.OPEN] })).toBe(false);
+    expect(service.matches(order, { ...EMPTY_TIMELINE_FILTER, workCenterIds: ['wc-b'] })).toBe(false);
+    expect(service.matches(order, { ...EMPTY_TIMELINE_FILTER, since: '2026-03-20', until: '2026-04-01' })).toBe(true);
+    expect(service.matches(order, { ...EMPTY_TIMELINE_FILTER, since: '2026-03-21' })).toBe(false);
+  });
+
+  it('should limit the date range to a single date field when requested', () => {
+    const startsInRange = { ...EMPTY_TIMELINE_FILTER, since: '2026-03-15', until: '2026-03-25' };
+
+    expect(service.matches(order, startsInRange)).toBe(true);
+    expect(service.matches(order, { ...startsInRange, dateField: TimelineDateFieldEnum.START })).toBe(false);
+    expect(service.matches(order, { ...startsInRange, dateField: TimelineDateFieldEnum.END })).toBe(true);
+  });
+
+  it('should only read the start and end date fields from the URL', async () => {
+    const router = TestBed.inject(Router);
+
+    await router.navigateByUrl('/?dates=end');
+    expect(service.filter().dateField).toBe(TimelineDateFieldEnum.END);
+
+    for (const dates of ['1', 'START', 'garbage']) {
+      await router.navigateByUrl(`/?dates=${dates}`);
+      expect(service.filter().dateField).toBe(TimelineDateFieldEnum.SCHEDULE);
+    }
+
+    expect(() => service.update({ ...service.filter(), search: 'frame' })).not.toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ParamMap, Router } from '@angular/router';
+
+import { StatusConfigService } from '../status-config-service/status-config.service';
+
+import TimelineFilter from '../../models/timeline-filter';
+import WorkOrder from '../../models/work-order';
+import { TimelineDateFieldEnum } from '../../enums/timeline-date-field';
+
+export const EMPTY_TIMELINE_FILTER: TimelineFilter = {
+  search: '',
+  statuses: [],
+  workCenterIds: [],
+  since: null,
+  until: null,
+  dateField: TimelineDateFieldEnum.SCHEDULE,
+  dimNonMatching: false,
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TimelineFilterService {
+  private readonly router: Router = inject(Router);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  readonly filter = signal<TimelineFilter>(EMPTY_TIMELINE_FILTER);
+
+  readonly isActive = computed(() => {
+    const { search, statuses, workCenterIds, since, until } = this.filter();
+    return !!search.trim() || !!statuses.length || !!workCenterIds.length || !!since || !!until;
+  });
+
+  constructor() {
+    // The URL is the source of truth, so shared links and back/forward restore the filter.
+    this.router.routerState.root.queryParamMap
+      .pipe(takeUntilDestroyed())
+      .subscribe(params => this.filter.set(this.fromQueryParams(params)));
+  }
+
+  /** * WHAT: Applies a new filter and mirrors it into the URL.
+   * HOW: Merges the filter's query params with the existing ones (empty values are
+   * removed) and replaces the history entry, so typing does not flood the back stack.
+   */
+  update(filter: TimelineFilter): void {
+    this.filter.set(filter);
+
+    this.router.navigate([], {
+      queryParams: this.toQueryParams(filter),
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+
+  reset(): void {
+    this.update({ ...EMPTY_TIMELINE_FILTER, dimNonMatching: this.filter().dimNonMatching });
+  }
+
+  /** * WHAT: Checks whether an order passes every active criterion.
+   * HOW: Name search is case-insensitive. By default the date range keeps orders that
+   * intersect it; with the start or end date field only that single date has to fall inside.
+   */
+  matches(order: WorkOrder, filter: TimelineFilter = this.filter()): boolean {
+    const search = filter.search.trim().toLowerCase();
+    const startDay = order.startDate.slice(0, 10);
+    const endDay = order.endDate.slice(0, 10);
+    const [rangeStartDay, rangeEndDay] = filter.dateField === TimelineDateFieldEnum.START
+      ? [startDay, startDay]
+      : filter.dateField === TimelineDateFieldEnum.END ? [endDay, endDay] : [startDay, endDay];
+
+    return (!search || order.name.toLowerCase().includes(search)) &&
+      (!filter.statuses.length || filter.statuses.includes(order.status)) &&
+      (!filter.workCenterIds.length || filter.workCenterIds.includes(order.workCenterId)) &&
+      (!filter.since || rangeEndDay >= filter.since) &&
+      (!filter.until || rangeStartDay <= filter.until);
+  }
+
+  private toQueryParams(filter: TimelineFilter): Record<string, string | null> {
+    return {
+      q: filter.search || null,
+      status: filter.statuses.join(',') || null,
+      wc: filter.workCenterIds.join(',') || null,
+      since: filter.since,
+      until: filter.until,
+      dates: filter.dateField === TimelineDateFieldEnum.START
+        ? 'start'
+        : filter.dateField === TimelineDateFieldEnum.END ? 'end' : null,
+      dim: filter.dimNonMatching ? '1' : null,
+    };
+  }
+
+  /** * WHAT: Reads a filter back from the URL.
+   * HOW: Unknown statuses, malformed dates and any date field other than 'start' or 'end'
+   * are ignored instead of failing the view.
+   */
+  private fromQueryParams(params: ParamMap): TimelineFilter {
+    const readList = (name: string) => (params.get(name) ?? '').split(',').filter(Boolean);
+    const readDate = (name: string) => {
+      const value = params.get(name);
+      return value && ISO_DATE_PATTERN.test(value) ? value : null;
+    };
+
+    return {
+      search: params.get('q') ?? '',
+      statuses: readList('status').filter(statusId =>
+        this.statusConfigService.statuses().some(status => status.id === statusId)
+      ),
+      workCenterIds: readList('wc'),
+      since: readDate('since'),
+      until: readDate('until'),
+      dateField: params.get('dates') === 'start'
+        ? TimelineDateFieldEnum.START
+        : params.get('dates') === 'end' ? TimelineDateFieldEnum.END : TimelineDateFieldEnum.SCHEDULE,
+      dimNonMatching: params.get('dim') === '1',
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 
 import { TimelineUtilService } from './timeline-util.service';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
 
 describe('TimelineUtil', () => {
   let service: TimelineUtilService;
@@ -13,4 +14,37 @@ describe('TimelineUtil', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should shift dates by whole timescale units', () => {
+    expect(service.shiftIsoDate('2026-03-10', ZoomLevelEnum.DAY, -3)).toBe('2026-03-07');
+    expect(service.shiftIsoDate('2026-03-10', ZoomLevelEnum.WEEK, 2)).toBe('2026-03-24');
+    expect(service.shiftIsoDate('2026-01-31', ZoomLevelEnum.MONTH, 1)).toBe('2026-02-28');
+  });
+
+  it('should keep sub-day times when parsing and shifting', () => {
+    expect(service.parseIsoDate('2026-03-10T14:30')).toEqual(new Date(2026, 2, 10, 14, 30));
+    expect(service.shiftIsoDate('2026-03-10', ZoomLevelEnum.HOUR, 3)).toBe('2026-03-10T03:00');
+    expect(service.shiftIsoDate('2026-03-10T22:00', ZoomLevelEnum.SHIFT, 1)).toBe('2026-03-11T06:00');
+    expect(service.shiftIsoDate('2026-03-10T08:15', ZoomLevelEnum.DAY, 1)).toBe('2026-03-11T08:15');
+  });
+
+  it('should align shift columns to the 06:00, 14:00 and 22:00 shift starts', () => {
+    const { start } = service.getInitialRange(ZoomLevelEnum.SHIFT, new Date(2026, 2, 10, 3, 45));
+    const columns = service.generateColumns(start, service.extendRight(start, ZoomLevelEnum.SHIFT, 2), ZoomLevelEnum.SHIFT);
+
+    expect(columns.map(column => column.date.getHours())).toEqual([22, 6, 14]);
+    expect(columns[1].label).toBe('Feb 17, 06–14');
+  });
+
+  it('should lay out quarter columns and position bars within them', () => {
+    const { start } = service.getInitialRange(ZoomLevelEnum.QUARTER, new Date(2026, 4, 20));
+    const columns = service.generateColumns(start, service.extendRight(start, ZoomLevelEnum.QUARTER, 3), ZoomLevelEnum.QUARTER);
+
+    expect(columns.map(column => column.label)).toEqual(['Q2 2024', 'Q3 2024', 'Q4 2024', 'Q1 2025']);
+    expect(service.shiftIsoDate('2026-01-31', ZoomLevelEnum.QUARTER, 1)).toBe('2026-04-30');
+
+    const position = service.calculateBarPosition('2024-07-01', '2024-10-01', start, 0, ZoomLevelEnum.QUARTER, columns);
+    expect(position.left).toBeCloseTo(25);
+    expect(position.width).toBeCloseTo(25);
+  });
 });
@@ -2,8 +2,32 @@ import {Injectable} from '@angular/core';
 
 import TimelineColumn from '../../models/timeline-column';
 import BarPosition from '../../models/bar-position';
+import LaneLayout from '../../models/lane-layout';
+import WorkOrder from '../../models/work-order';
 import { ZoomLevelEnum } from '../../enums/zoom-level';
 
+// Three 8-hour shifts a day: 06:00-14:00, 14:00-22:00 and 22:00-06:00.
+const FIRST_SHIFT_START_HOUR = 6;
+export const SHIFT_LENGTH_HOURS = 8;
+
+const ISO_VALUE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+
+/** * WHAT: Accepts YYYY-MM-DD and YYYY-MM-DDTHH:mm values with a real calendar date and time.
+ * HOW: Rebuilds the date from its parts and rejects values Date.UTC had to roll over
+ * (e.g. 2026-02-30 or 25:00). UTC has no DST gaps, so a local time skipped by a
+ * spring-forward change (e.g. 02:30 on the last Sunday of March in Europe) still passes.
+ */
+export function isIsoDateValue(value: unknown): value is string {
+  const match = typeof value === 'string' ? ISO_VALUE_PATTERN.exec(value) : null;
+  if (!match) return false;
+
+  const [year, month, day, hours, minutes] = match.slice(1).map(part => Number(part ?? 0));
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes));
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day &&
+    date.getUTCHours() === hours && date.getUTCMinutes() === minutes;
+}
+
 @Injectable({
   providedIn: 'root',
 })
@@ -52,13 +76,88 @@ export class TimelineUtilService {
     return date;
   }
 
+  /** * WHAT: Moves an ISO date by whole timescale units (used for drag snapping).
+   * HOW: Parses the date in local time, advances or retreats the cursor 'steps' times
+   * and clamps the day for Month, Quarter and Year steps so that e.g. Jan 31 + 1 month lands on Feb 28.
+   * Date-only values stay date-only unless they are moved by Hour or Shift steps.
+   */
+  shiftIsoDate(dateIso: string, zoom: ZoomLevelEnum, steps: number): string {
+    const date = this.parseIsoDate(dateIso);
+
+    const monthsPerColumn = this.getMonthsPerColumn(zoom);
+    if (monthsPerColumn) {
+      const dayOfMonth = date.getDate();
+      date.setDate(1);
+      date.setMonth(date.getMonth() + steps * monthsPerColumn);
+      const totalDaysInTargetMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      date.setDate(Math.min(dayOfMonth, totalDaysInTargetMonth));
+      return this.formatIsoValue(date, this.hasTime(dateIso));
+    }
+
+    for (let i = 0; i < Math.abs(steps); i++) {
+      if (steps > 0) this.advanceCursor(date, zoom);
+      else this.retreatCursor(date, zoom);
+    }
+    return this.formatIsoValue(date, this.hasTime(dateIso) || this.isSubDayZoom(zoom));
+  }
+
+  /** * WHAT: Converts a stored YYYY-MM-DD (or YYYY-MM-DDTHH:mm) string into a local-time Date.
+   * HOW: Splits the string manually, because 'new Date("YYYY-MM-DD")' is parsed
+   * as UTC midnight and can land on the previous day in negative offsets.
+   * Date-only values resolve to local midnight.
+   */
+  parseIsoDate(dateIso: string): Date {
+    const [year, month, day] = dateIso.slice(0, 10).split('-').map(Number);
+    const [hours, minutes] = this.hasTime(dateIso) ? dateIso.slice(11, 16).split(':').map(Number) : [0, 0];
+    return new Date(year, month - 1, day, hours, minutes);
+  }
+
+  /** * WHAT: Converts a Date into the YYYY-MM-DD format used for storage.
+   * HOW: Reads the local calendar fields and pads month and day with leading zeros.
+   */
+  formatIsoDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  /** * WHAT: Converts a Date into the YYYY-MM-DDTHH:mm format used for sub-day orders.
+   * HOW: Local wall-clock time without an offset, matching '<input type="time">' values.
+   */
+  formatIsoDateTime(date: Date): string {
+    return `${this.formatIsoDate(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  }
+
+  formatIsoValue(date: Date, withTime: boolean): string {
+    return withTime ? this.formatIsoDateTime(date) : this.formatIsoDate(date);
+  }
+
+  hasTime(dateIso: string): boolean {
+    return dateIso.length > 10;
+  }
+
+  isSubDayZoom(zoom: ZoomLevelEnum): boolean {
+    return zoom === ZoomLevelEnum.HOUR || zoom === ZoomLevelEnum.SHIFT;
+  }
+
+  /** * WHAT: Number of calendar months one column spans (0 for day-based timescales).
+   * HOW: Month-based columns have uneven lengths, so their bars are positioned per column.
+   */
+  getMonthsPerColumn(zoom: ZoomLevelEnum): number {
+    switch (zoom) {
+      case ZoomLevelEnum.MONTH: return 1;
+      case ZoomLevelEnum.QUARTER: return 3;
+      case ZoomLevelEnum.YEAR: return 12;
+      default: return 0;
+    }
+  }
+
   /**
    * WHAT: Determines the visual position and scale of a work order bar.
    * HOW:
-   * - For Day/Week: Uses linear percentage of the total timeline duration.
-   * - For Month: Uses a Column-Index + Day-Ratio approach to prevent drift caused
-   * by varying month lengths (e.g., Feb vs March), ensuring bars align perfectly
-   * with the visual grid columns.
+   * - For Hour/Shift/Day/Week: Uses linear percentage of the total timeline duration,
+   * down to the minute for orders with a start or end time.
+   * - For Month/Quarter/Year: Uses a Column-Index + Period-Ratio approach for both edges
+   * to prevent drift caused by varying month lengths (e.g., Feb vs March), ensuring bars
+   * align perfectly with the visual grid columns.
    */
   calculateBarPosition(
     startDateIso: string,
@@ -72,8 +171,9 @@ export class TimelineUtilService {
     const orderEndTimestamp = this.getLocalTime(endDateIso);
     const timelineStartTimestamp = this.getLocalTime(timelineRangeStartDate);
 
-    // LOGIC FOR DAY/WEEK: Pure Linear Math
-    if (zoom !== ZoomLevelEnum.MONTH) {
+    // LOGIC FOR HOUR/SHIFT/DAY/WEEK: Pure Linear Math
+    const monthsPerColumn = this.getMonthsPerColumn(zoom);
+    if (!monthsPerColumn) {
       const leftPercentage = ((orderStartTimestamp - timelineStartTimestamp) / totalTimelineDurationMs) * 100;
       const widthPercentage = ((orderEndTimestamp - orderStartTimestamp) / totalTimelineDurationMs) * 100;
 
@@ -83,52 +183,88 @@ export class TimelineUtilService {
       };
     }
 
-    // LOGIC FOR MONTH: Grid-Relative Math
-    const rangeStartObject = new Date(timelineRangeStartDate);
-    const orderStartObject = new Date(startDateIso);
+    // LOGIC FOR MONTH/QUARTER/YEAR: Grid-Relative Math
+    const totalColumnCount = columns.length;
+    const startColumnOffset = this.getColumnOffset(orderStartTimestamp, timelineRangeStartDate, monthsPerColumn);
+    const endColumnOffset = this.getColumnOffset(orderEndTimestamp, timelineRangeStartDate, monthsPerColumn);
+
+    return {
+      left: (startColumnOffset / totalColumnCount) * 100,
+      width: Math.max(((endColumnOffset - startColumnOffset) / totalColumnCount) * 100, 1.5) // 1.5% minimum width for visibility
+    };
+  }
+
+  /** * WHAT: Converts a timestamp into a fractional column index on a month-based grid.
+   * HOW: Counts the whole columns between the range start and the column holding the
+   * timestamp (e.g. Jan 15th in a Month column is ~50% into it), then adds the
+   * progress within that column.
+   */
+  private getColumnOffset(timestamp: number, rangeStart: Date, monthsPerColumn: number): number {
+    const date = new Date(timestamp);
+    const monthsDifference = (date.getFullYear() - rangeStart.getFullYear()) * 12 + (date.getMonth() - rangeStart.getMonth());
+    const columnIndex = Math.floor(monthsDifference / monthsPerColumn);
 
-    // 1. Calculate how many full month-columns exist between the timeline start and the order start
-    const yearsDifference = orderStartObject.getFullYear() - rangeStartObject.getFullYear();
-    const monthsDifference = (yearsDifference * 12) + (orderStartObject.getMonth() - rangeStartObject.getMonth());
+    const columnStart = new Date(rangeStart.getFullYear(), rangeStart.getMonth() + columnIndex * monthsPerColumn, 1).getTime();
+    const nextColumnStart = new Date(rangeStart.getFullYear(), rangeStart.getMonth() + (columnIndex + 1) * monthsPerColumn, 1).getTime();
 
-    // 2. Calculate the position within the starting month (e.g., Jan 15th is ~50% into the column)
-    const totalDaysInStartingMonth = new Date(orderStartObject.getFullYear(), orderStartObject.getMonth() + 1, 0).getDate();
-    const dayOfMonthIndex = orderStartObject.getDate() - 1; // 0-indexed for math
-    const progressWithinMonthRatio = dayOfMonthIndex / totalDaysInStartingMonth;
+    return columnIndex + (timestamp - columnStart) / (nextColumnStart - columnStart);
+  }
 
-    // 3. Map the column index and the internal month progress to the total grid width
-    const totalColumnCount = columns.length;
-    const finalLeftPercentage = ((monthsDifference + progressWithinMonthRatio) / totalColumnCount) * 100;
+  /** * WHAT: Stacks overlapping orders of one row into sub-lanes.
+   * HOW: Greedy interval partitioning - orders are sorted by start and each one takes
+   * the first lane whose last order has already ended, opening a new lane otherwise.
+   */
+  assignLanes(orders: WorkOrder[]): LaneLayout {
+    const laneByOrderId = new Map<string, number>();
+    const laneEndTimestamps: number[] = [];
 
-    // 4. Calculate width based on an average month length (30.44 days) to maintain visual consistency
-    const millisecondsPerDay = 1000 * 60 * 60 * 24;
-    const totalOrderDurationDays = (orderEndTimestamp - orderStartTimestamp) / millisecondsPerDay;
-    const finalWidthPercentage = (totalOrderDurationDays / (totalColumnCount * 30.44)) * 100;
+    const sortedOrders = [...orders].sort((a, b) =>
+      this.getLocalTime(a.startDate) - this.getLocalTime(b.startDate) ||
+      this.getLocalTime(a.endDate) - this.getLocalTime(b.endDate)
+    );
 
-    return {
-      left: finalLeftPercentage,
-      width: Math.max(finalWidthPercentage, 1.5) // 1.5% minimum width for visibility
-    };
+    for (const order of sortedOrders) {
+      const startTimestamp = this.getLocalTime(order.startDate);
+      const endTimestamp = this.getLocalTime(order.endDate);
+
+      let laneIndex = laneEndTimestamps.findIndex(laneEnd => laneEnd <= startTimestamp);
+      if (laneIndex === -1) laneIndex = laneEndTimestamps.length;
+
+      laneEndTimestamps[laneIndex] = Math.max(endTimestamp, startTimestamp + 1);
+      laneByOrderId.set(order.id, laneIndex);
+    }
+
+    return { laneByOrderId, laneCount: Math.max(1, laneEndTimestamps.length) };
   }
 
   private getLocalTime(dateInput: string | Date): number {
-    const d = new Date(dateInput);
-    return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+    return typeof dateInput === 'string' ? this.parseIsoDate(dateInput).getTime() : dateInput.getTime();
   }
 
   /** * WHAT: Establishes the default date boundaries for the initial render.
-   * HOW: Looks at the current date and subtracts/adds periods
-   * proportional to the zoom level to provide a balanced starting viewport.
+   * HOW: Looks at the anchor date (today unless a deep link asks for another window)
+   * and subtracts/adds periods proportional to the zoom level to provide a balanced starting viewport.
    */
-  getInitialRange(zoom: ZoomLevelEnum): { start: Date; end: Date } {
-    const now = new Date();
-    const start = new Date(now);
-    const end = new Date(now);
+  getInitialRange(zoom: ZoomLevelEnum, anchor: Date = new Date()): { start: Date; end: Date } {
+    const start = new Date(anchor);
+    const end = new Date(anchor);
 
     switch (zoom) {
+      case ZoomLevelEnum.YEAR:
+        start.setFullYear(start.getFullYear() - 5, 0, 1);
+        start.setHours(0, 0, 0, 0);
+        end.setFullYear(end.getFullYear() + 10, 0, 1);
+        break;
+      case ZoomLevelEnum.QUARTER:
+        start.setMonth(start.getMonth() - 24, 1);
+        start.setMonth(start.getMonth() - start.getMonth() % 3);
+        start.setHours(0, 0, 0, 0);
+        end.setMonth(end.getMonth() + 36, 1);
+        break;
       case ZoomLevelEnum.MONTH:
         start.setMonth(start.getMonth() - 12);
         start.setDate(1);
+        start.setHours(0, 0, 0, 0);
         end.setMonth(end.getMonth() + 12);
         end.setDate(1);
         break;
@@ -141,31 +277,51 @@ export class TimelineUtilService {
         break;
       case ZoomLevelEnum.DAY:
         start.setDate(start.getDate() - 90);
+        start.setHours(0, 0, 0, 0);
         end.setDate(end.getDate() + 90);
         end.setDate(end.getDate() + 180);
         break;
+      case ZoomLevelEnum.SHIFT:
+        start.setDate(start.getDate() - 21);
+        this.alignToShiftStart(start);
+        end.setDate(end.getDate() + 42);
+        break;
+      case ZoomLevelEnum.HOUR:
+        start.setDate(start.getDate() - 2);
+        start.setHours(0, 0, 0, 0);
+        end.setDate(end.getDate() + 5);
+        break;
     }
     return { start, end };
   }
 
   /** * WHAT: Defines the "chunk size" for timeline extensions.
-   * HOW: Returns a fixed integer of units (Days/Weeks/Months) to add when the
+   * HOW: Returns a fixed integer of units (Hours/Shifts/Days/Weeks/Months/Quarters/Years) to add when the
    * user triggers an infinite scroll event, ensuring smooth date loading.
    */
   getExtensionCount(zoom: ZoomLevelEnum): number {
     switch (zoom) {
+      case ZoomLevelEnum.YEAR: return 2;
+      case ZoomLevelEnum.QUARTER: return 4;
       case ZoomLevelEnum.MONTH: return 6;
       case ZoomLevelEnum.WEEK: return 12;
       case ZoomLevelEnum.DAY: return 30;
+      case ZoomLevelEnum.SHIFT: return 21;
+      case ZoomLevelEnum.HOUR: return 24;
     }
   }
 
   /** * WHAT: Generates human-readable labels for the timeline headers.
    * HOW: Uses 'toLocaleDateString' with specific options to return context-aware
-   * strings like "Jan 2026" for months or "Feb 12" for days.
+   * strings like "2026" for years, "Q1 2026" for quarters, "Jan 2026" for months, "Feb 12" for days, "Feb 12, 06–14" for shifts
+   * or "Feb 12, 09:00" for hours.
    */
   private formatColumnLabel(date: Date, zoom: ZoomLevelEnum): string {
     switch (zoom) {
+      case ZoomLevelEnum.YEAR:
+        return String(date.getFullYear());
+      case ZoomLevelEnum.QUARTER:
+        return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
       case ZoomLevelEnum.MONTH:
         return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
       case ZoomLevelEnum.WEEK: {
@@ -175,15 +331,26 @@ export class TimelineUtilService {
       }
       case ZoomLevelEnum.DAY:
         return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      case ZoomLevelEnum.SHIFT: {
+        const shiftEndHour = (date.getHours() + SHIFT_LENGTH_HOURS) % 24;
+        return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${String(date.getHours()).padStart(2, '0')}–${String(shiftEndHour).padStart(2, '0')}`;
+      }
+      case ZoomLevelEnum.HOUR:
+        return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${String(date.getHours()).padStart(2, '0')}:00`;
     }
   }
 
   /** * WHAT: Identifies if a specific column represents the "present" time.
    * HOW: Compares the column date against the 'now' timestamp using varying
-   * precision (Year/Month for Months, Date ranges for Weeks) to highlight the current period.
+   * precision (Year for Years, Year/Quarter for Quarters, Year/Month for Months, Date ranges for
+   * Weeks, Shifts and Hours) to highlight the current period.
    */
   private isCurrentPeriod(date: Date, now: Date, zoom: ZoomLevelEnum): boolean {
     switch (zoom) {
+      case ZoomLevelEnum.YEAR:
+        return date.getFullYear() === now.getFullYear();
+      case ZoomLevelEnum.QUARTER:
+        return date.getFullYear() === now.getFullYear() && Math.floor(date.getMonth() / 3) === Math.floor(now.getMonth() / 3);
       case ZoomLevelEnum.MONTH:
         return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
       case ZoomLevelEnum.WEEK: {
@@ -197,15 +364,35 @@ export class TimelineUtilService {
           date.getMonth() === now.getMonth() &&
           date.getDate() === now.getDate()
         );
+      case ZoomLevelEnum.SHIFT:
+      case ZoomLevelEnum.HOUR: {
+        const periodEnd = new Date(date);
+        this.advanceCursor(periodEnd, zoom);
+        return now >= date && now < periodEnd;
+      }
     }
   }
 
+  /** * WHAT: Moves a date back to the start of the shift it falls in.
+   * HOW: Counts the hours elapsed since the first shift start (wrapping around midnight).
+   */
+  private alignToShiftStart(date: Date): void {
+    const hoursIntoShift = ((date.getHours() - FIRST_SHIFT_START_HOUR) % SHIFT_LENGTH_HOURS + SHIFT_LENGTH_HOURS) % SHIFT_LENGTH_HOURS;
+    date.setHours(date.getHours() - hoursIntoShift, 0, 0, 0);
+  }
+
   /** * WHAT: Increments the date cursor based on the zoom level.
    * HOW: Mutates the date object by adding one unit of the current timescale
-   * (Day/Week/Month) to move the timeline forward.
+   * (Hour/Shift/Day/Week/Month/Quarter/Year) to move the timeline forward.
    */
   private advanceCursor(date: Date, zoom: ZoomLevelEnum): void {
     switch (zoom) {
+      case ZoomLevelEnum.YEAR:
+        date.setFullYear(date.getFullYear() + 1);
+        break;
+      case ZoomLevelEnum.QUARTER:
+        date.setMonth(date.getMonth() + 3);
+        break;
       case ZoomLevelEnum.MONTH:
         date.setMonth(date.getMonth() + 1);
         break;
@@ -215,15 +402,27 @@ export class TimelineUtilService {
       case ZoomLevelEnum.DAY:
         date.setDate(date.getDate() + 1);
         break;
+      case ZoomLevelEnum.SHIFT:
+        date.setHours(date.getHours() + SHIFT_LENGTH_HOURS);
+        break;
+      case ZoomLevelEnum.HOUR:
+        date.setHours(date.getHours() + 1);
+        break;
     }
   }
 
   /** * WHAT: Decrements the date cursor based on the zoom level.
    * HOW: Mutates the date object by subtracting one unit of the current timescale
-   * (Day/Week/Month) to move the timeline backward.
+   * (Hour/Shift/Day/Week/Month/Quarter/Year) to move the timeline backward.
    */
   private retreatCursor(date: Date, zoom: ZoomLevelEnum): void {
     switch (zoom) {
+      case ZoomLevelEnum.YEAR:
+        date.setFullYear(date.getFullYear() - 1);
+        break;
+      case ZoomLevelEnum.QUARTER:
+        date.setMonth(date.getMonth() - 3);
+        break;
       case ZoomLevelEnum.MONTH:
         date.setMonth(date.getMonth() - 1);
         break;
@@ -233,6 +432,12 @@ export class TimelineUtilService {
       case ZoomLevelEnum.DAY:
         date.setDate(date.getDate() - 1);
         break;
+      case ZoomLevelEnum.SHIFT:
+        date.setHours(date.getHours() - SHIFT_LENGTH_HOURS);
+        break;
+      case ZoomLevelEnum.HOUR:
+        date.setHours(date.getHours() - 1);
+        break;
     }
   }
 }
@@ -0,0 +1,35 @@
+import { Injectable, signal } from '@angular/core';
+
+import ToastMessage from '../../models/toast-message';
+
+const DEFAULT_TOAST_DURATION_MS = 5000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ToastService {
+  readonly toasts = signal<ToastMessage[]>([]);
+
+  /** * WHAT: Displays a short, optionally actionable notification.
+   * HOW: Appends the message to the 'toasts' signal and schedules its removal,
+   * so callers never need to manage the lifecycle themselves.
+   */
+  show(
+    message: string,
+    options: { actionLabel?: string; action?: () => void; durationMs?: number } = {}
+  ): void {
+    const toast: ToastMessage = {
+      id: crypto.randomUUID(),
+      message,
+      actionLabel: options.actionLabel,
+      action: options.action,
+    };
+
+    this.toasts.update(currentToasts => [...currentToasts, toast]);
+    setTimeout(() => this.dismiss(toast.id), options.durationMs ?? DEFAULT_TOAST_DURATION_MS);
+  }
+
+  dismiss(toastId: string): void {
+    this.toasts.update(currentToasts => currentToasts.filter(toast => toast.id !== toastId));
+  }
+}
@@ -0,0 +1,25 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ANONYMOUS_ACTOR, UserProfileService } from './user-profile.service';
+
+describe('UserProfileService', () => {
+  let service: UserProfileService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(UserProfileService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should fall back to an anonymous actor until a name is set', () => {
+    expect(service.actorName()).toBe(ANONYMOUS_ACTOR);
+
+    service.setName('  Dana  ');
+    expect(service.actorName()).toBe('Dana');
+    expect(JSON.parse(localStorage.getItem('user-profile')!)).toEqual({ name: 'Dana' });
+  });
+});
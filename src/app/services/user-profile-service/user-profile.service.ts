@@ -0,0 +1,37 @@
+import { computed, Injectable, signal } from '@angular/core';
+
+import UserProfile from '../../models/user-profile';
+
+const STORAGE_KEY = 'user-profile';
+
+export const ANONYMOUS_ACTOR = 'Anonymous';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UserProfileService {
+  // WHAT: The person using this browser, named in the audit trail.
+  // HOW: A local profile only (no accounts), kept in localStorage.
+  readonly profile = signal<UserProfile>(this.loadProfile());
+
+  readonly actorName = computed(() => this.profile().name || ANONYMOUS_ACTOR);
+
+  setName(name: string): void {
+    this.profile.set({ name: name.trim() });
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profile()));
+    }
+  }
+
+  private loadProfile(): UserProfile {
+    if (typeof localStorage === 'undefined') return { name: '' };
+
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as UserProfile | null;
+      return { name: typeof parsed?.name === 'string' ? parsed.name : '' };
+    } catch {
+      return { name: '' };
+    }
+  }
+}
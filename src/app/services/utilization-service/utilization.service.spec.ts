@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+
+import { UtilizationService } from './utilization.service';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+describe('UtilizationService', () => {
+  let service: UtilizationService;
+
+  const createOrder = (id: string, startDate: string, endDate: string): WorkOrder => ({
+    id,
+    name: id,
+    workCenterId: 'wc-1',
+    status: WorkOrderStatusEnum.OPEN,
+    startDate,
+    endDate,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(UtilizationService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should compute the booked share of each column relative to capacity', () => {
+    const orders = [createOrder('a', '2026-03-02', '2026-03-05'), createOrder('b', '2026-03-04', '2026-03-09')];
+    const columns = [
+      { label: 'Mar 2', date: new Date(2026, 2, 2), isCurrentPeriod: false },
+      { label: 'Mar 9', date: new Date(2026, 2, 9), isCurrentPeriod: false },
+    ];
+
+    const cells = service.getColumnUtilization(orders, columns, ZoomLevelEnum.WEEK, 2);
+
+    expect(cells[0].percent).toBe(57);
+    expect(cells[0].level).toBe('medium');
+    expect(cells[1]).toEqual({ label: 'Mar 9', percent: 0, level: 'idle' });
+  });
+});
@@ -0,0 +1,59 @@
+import { inject, Injectable } from '@angular/core';
+
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+
+import TimelineColumn from '../../models/timeline-column';
+import UtilizationCell from '../../models/utilization-cell';
+import WorkOrder from '../../models/work-order';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UtilizationService {
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+
+  /** * WHAT: Percentage (0-100) of a period booked by a work center's orders.
+   * HOW: Sums the part of every order that falls inside the period and divides it by the
+   * period length times the capacity, so a capacity-2 center is full only with two parallel orders.
+   */
+  getUtilization(orders: WorkOrder[], periodStart: Date, periodEnd: Date, capacity = 1): number {
+    const start = periodStart.getTime();
+    const end = periodEnd.getTime();
+    if (end <= start) return 0;
+
+    const bookedMs = orders.reduce((total, order) => {
+      const orderStart = Math.max(this.timelineUtilService.parseIsoDate(order.startDate).getTime(), start);
+      const orderEnd = Math.min(this.timelineUtilService.parseIsoDate(order.endDate).getTime(), end);
+      return total + Math.max(0, orderEnd - orderStart);
+    }, 0);
+
+    return Math.min(100, (bookedMs / ((end - start) * Math.max(1, capacity))) * 100);
+  }
+
+  /** * WHAT: Builds one heatmap cell per timeline column.
+   * HOW: A column spans from its own date to the start of the next period at the current zoom;
+   * the percentage is rounded for display, the level uses the exact value.
+   */
+  getColumnUtilization(
+    orders: WorkOrder[],
+    columns: TimelineColumn[],
+    zoom: ZoomLevelEnum,
+    capacity = 1
+  ): UtilizationCell[] {
+    return columns.map(column => {
+      const periodEnd = this.timelineUtilService.extendRight(column.date, zoom, 1);
+      const percent = this.getUtilization(orders, column.date, periodEnd, capacity);
+
+      return { label: column.label, percent: Math.round(percent), level: this.getLevel(percent) };
+    });
+  }
+
+  private getLevel(percent: number): UtilizationCell['level'] {
+    if (percent === 0) return 'idle';
+    if (percent < 50) return 'low';
+    if (percent < 85) return 'medium';
+    if (percent < 100) return 'high';
+    return 'full';
+  }
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkOrderHealthService } from './work-order-health.service';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderHealthEnum } from '../../enums/work-order-health';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('WorkOrderHealthService', () => {
+  let service: WorkOrderHealthService;
+
+  const now = new Date(2026, 2, 10, 12);
+  const createOrder = (overrides: Partial<WorkOrder>): WorkOrder => ({
+    id: 'wo-1', name: 'Weld frame', workCenterId: 'wc-a',
+    startDate: '2026-03-01', endDate: '2026-03-20', status: WorkOrderStatusEnum.IN_PROGRESS,
+    ...overrides,
+  });
+  const getHealth = (order: WorkOrder) => service.getWarnings(order, now).map(warning => warning.health);
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkOrderHealthService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should flag overdue, late-start and long-blocked orders', () => {
+    expect(getHealth(createOrder({}))).toEqual([]);
+    expect(getHealth(createOrder({ endDate: '2026-03-09' }))).toEqual([WorkOrderHealthEnum.OVERDUE]);
+    expect(getHealth(createOrder({ status: WorkOrderStatusEnum.OPEN, startDate: '2026-03-10' })))
+      .toEqual([WorkOrderHealthEnum.LATE_START]);
+    expect(getHealth(createOrder({ status: WorkOrderStatusEnum.BLOCKED, blockedSince: '2026-03-06T09:00' })))
+      .toEqual([WorkOrderHealthEnum.LONG_BLOCKED]);
+    expect(getHealth(createOrder({ status: WorkOrderStatusEnum.BLOCKED, blockedSince: '2026-03-08T09:00' }))).toEqual([]);
+  });
+
+  it('should apply the configured thresholds', () => {
+    service.setSettings({ overdueGraceDays: 2, lateStartGraceDays: 1, blockedDays: 1 });
+
+    expect(getHealth(createOrder({ endDate: '2026-03-09' }))).toEqual([]);
+    expect(getHealth(createOrder({ status: WorkOrderStatusEnum.OPEN, startDate: '2026-03-10' }))).toEqual([]);
+    expect(getHealth(createOrder({ status: WorkOrderStatusEnum.BLOCKED, blockedSince: '2026-03-08T09:00' })))
+      .toEqual([WorkOrderHealthEnum.LONG_BLOCKED]);
+  });
+});
@@ -0,0 +1,104 @@
+import { computed, inject, Injectable, signal } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { ScheduleStatsService } from '../schedule-stats-service/schedule-stats.service';
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+
+import HealthSettings from '../../models/health-settings';
+import WorkOrder from '../../models/work-order';
+import WorkOrderHealthWarning from '../../models/work-order-health-warning';
+import { WorkOrderHealthEnum } from '../../enums/work-order-health';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ZoomLevelEnum } from '../../enums/zoom-level';
+
+const STORAGE_KEY = 'work-order-health-settings';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HEALTH_SETTINGS: HealthSettings = {
+  overdueGraceDays: 0,
+  lateStartGraceDays: 0,
+  blockedDays: 3,
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WorkOrderHealthService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly scheduleStatsService: ScheduleStatsService = inject(ScheduleStatsService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  readonly settings = signal<HealthSettings>(this.loadSettings());
+
+  // WHAT: Orders with at least one warning, for the header badge.
+  // HOW: Re-evaluated whenever the orders or the thresholds change.
+  readonly attention = computed(() => {
+    const warningsByOrder = this.workOrderService.orders().map(order => this.getWarnings(order));
+    const countOf = (health: WorkOrderHealthEnum) =>
+      warningsByOrder.filter(warnings => warnings.some(warning => warning.health === health)).length;
+
+    return {
+      orderCount: warningsByOrder.filter(warnings => warnings.length).length,
+      overdueCount: countOf(WorkOrderHealthEnum.OVERDUE),
+      lateStartCount: countOf(WorkOrderHealthEnum.LATE_START),
+      longBlockedCount: countOf(WorkOrderHealthEnum.LONG_BLOCKED),
+    };
+  });
+
+  setSettings(settings: HealthSettings): void {
+    this.settings.set(settings);
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    }
+  }
+
+  /** * WHAT: Derives the health warnings of an order (nothing is stored on the order).
+   * HOW:
+   * - Overdue: unfinished and the end date lies more than 'overdueGraceDays' days in the past.
+   * - Late start: still not started although the start date was reached 'lateStartGraceDays' days ago.
+   * - Long blocked: in a blocked status for more than 'blockedDays' days, measured from 'blockedSince'
+   * (orders blocked before that field existed are not flagged).
+   */
+  getWarnings(order: WorkOrder, now: Date = new Date()): WorkOrderHealthWarning[] {
+    const { overdueGraceDays, lateStartGraceDays, blockedDays } = this.settings();
+    const todayIso = this.timelineUtilService.formatIsoDate(now);
+    const warnings: WorkOrderHealthWarning[] = [];
+
+    const overdueCutoff = this.timelineUtilService.shiftIsoDate(todayIso, ZoomLevelEnum.DAY, -overdueGraceDays);
+    if (this.scheduleStatsService.isOverdue(order, overdueCutoff)) {
+      warnings.push({ health: WorkOrderHealthEnum.OVERDUE, label: 'Overdue' });
+    }
+
+    const status = this.statusConfigService.getStatus(order.status);
+    const lateStartCutoff = this.timelineUtilService.shiftIsoDate(todayIso, ZoomLevelEnum.DAY, -lateStartGraceDays);
+    if (status.category === StatusCategoryEnum.NOT_STARTED && order.startDate.slice(0, 10) <= lateStartCutoff) {
+      warnings.push({ health: WorkOrderHealthEnum.LATE_START, label: `Should have started but is still ${status.label.toLowerCase()}` });
+    }
+
+    if (status.category === StatusCategoryEnum.BLOCKED && order.blockedSince) {
+      const blockedMs = now.getTime() - this.timelineUtilService.parseIsoDate(order.blockedSince).getTime();
+      if (blockedMs > blockedDays * MS_PER_DAY) {
+        warnings.push({
+          health: WorkOrderHealthEnum.LONG_BLOCKED,
+          label: `${status.label} for more than ${blockedDays} ${blockedDays === 1 ? 'day' : 'days'}`,
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  private loadSettings(): HealthSettings {
+    if (typeof localStorage === 'undefined') return DEFAULT_HEALTH_SETTINGS;
+
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<HealthSettings> | null;
+      return { ...DEFAULT_HEALTH_SETTINGS, ...parsed };
+    } catch {
+      return DEFAULT_HEALTH_SETTINGS;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { TestBed } from '@angular/core/testing';
+
+import { WorkOrderProgressService } from './work-order-progress.service';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('WorkOrderProgressService', () => {
+  let service: WorkOrderProgressService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkOrderProgressService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should clamp and snap percent values', () => {
+    expect(service.clampPercent(-12)).toBe(0);
+    expect(service.clampPercent(140)).toBe(100);
+    expect(service.clampPercent(42, 5)).toBe(40);
+  });
+
+  it('should suggest the status matching the progress', () => {
+    expect(service.getSuggestedStatus({ status: WorkOrderStatusEnum.IN_PROGRESS, percentComplete: 100 }))
+      .toBe(WorkOrderStatusEnum.COMPLETED);
+    expect(service.getSuggestedStatus({ status: WorkOrderStatusEnum.IN_PROGRESS, percentComplete: 0 }))
+      .toBe(WorkOrderStatusEnum.OPEN);
+    expect(service.getSuggestedStatus({ status: WorkOrderStatusEnum.OPEN, percentComplete: 30 }))
+      .toBe(WorkOrderStatusEnum.IN_PROGRESS);
+    expect(service.getSuggestedStatus({ status: WorkOrderStatusEnum.BLOCKED, percentComplete: 30 })).toBeNull();
+    expect(service.getSuggestedStatus({ status: WorkOrderStatusEnum.OPEN, percentComplete: undefined })).toBeNull();
+  });
+});
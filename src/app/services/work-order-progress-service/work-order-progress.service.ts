@@ -0,0 +1,47 @@
+import { inject, Injectable } from '@angular/core';
+
+import { StatusWorkflowService } from '../status-workflow-service/status-workflow.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+
+import WorkOrder from '../../models/work-order';
+import { StatusCategoryEnum } from '../../enums/status-category';
+
+// Dragging the progress handle snaps to this many percent.
+export const PROGRESS_STEP_PERCENT = 5;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WorkOrderProgressService {
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  /** * WHAT: Normalizes a percent-complete value.
+   * HOW: Rounds to a whole percent (or to 'step') and clamps it to 0–100.
+   */
+  clampPercent(value: number, step = 1): number {
+    return Math.min(100, Math.max(0, Math.round(value / step) * step));
+  }
+
+  /** * WHAT: Suggests the status id that matches an order's progress.
+   * HOW: 100% suggests the default done status, 0% the default not-started status and
+   * anything in between the default active one. Returns null when the current status is
+   * already of that category, never suggests leaving a blocked status unless the order
+   * is finished, since a block is independent of the progress, and never suggests a move
+   * the status workflow does not allow.
+   */
+  getSuggestedStatus(order: Pick<WorkOrder, 'status' | 'percentComplete' | 'blockedFromStatus'>): string | null {
+    if (order.percentComplete === undefined) return null;
+
+    const suggestedCategory = order.percentComplete >= 100
+      ? StatusCategoryEnum.DONE
+      : order.percentComplete <= 0 ? StatusCategoryEnum.NOT_STARTED : StatusCategoryEnum.ACTIVE;
+    const currentCategory = this.statusConfigService.getStatus(order.status).category;
+
+    if (suggestedCategory === currentCategory) return null;
+    if (currentCategory === StatusCategoryEnum.BLOCKED && suggestedCategory !== StatusCategoryEnum.DONE) return null;
+
+    const suggestedStatus = this.statusConfigService.getDefaultStatusId(suggestedCategory);
+    return suggestedStatus && this.statusWorkflowService.canTransition(order, suggestedStatus) ? suggestedStatus : null;
+  }
+}
@@ -1,11 +1,19 @@
 import { TestBed } from '@angular/core/testing';
 
 import { WorkOrderService } from './work-order.service';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+import { LocalWorkOrderStorage } from '../work-order-storage-service/local-work-order-storage.service';
+import { ToastService } from '../toast-service/toast.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
+import { StatusCategoryEnum } from '../../enums/status-category';
 
 describe('WorkOrder', () => {
   let service: WorkOrderService;
 
   beforeEach(() => {
+    localStorage.clear();
     TestBed.configureTestingModule({});
     service = TestBed.inject(WorkOrderService);
   });
@@ -13,4 +21,209 @@ describe('WorkOrder', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should restore a deleted order on undo and remove it again on redo', () => {
+    const [firstOrder] = service.orders();
+
+    service.deleteOrder(firstOrder.id);
+    expect(service.orders().some(order => order.id === firstOrder.id)).toBe(false);
+
+    service.undo();
+    expect(service.orders().find(order => order.id === firstOrder.id))
+      .toEqual({ ...firstOrder, version: expect.any(Number), updatedAt: expect.any(String) });
+
+    service.redo();
+    expect(service.orders().some(order => order.id === firstOrder.id)).toBe(false);
+  });
+
+  it('should roll back a change the storage backend fails to write', () => {
+    const [firstOrder] = service.orders();
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (key === 'work-orders') throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    expect(service.updateOrder({ ...firstOrder, name: 'Renamed' })).toBe(true);
+    vi.restoreAllMocks();
+
+    expect(service.orders()[0].name).toBe(firstOrder.name);
+    expect(service.error()).toBe('Your last change could not be saved and has been rolled back.');
+    expect(service.undo()).toBeNull();
+  });
+
+  it('should block archiving a work center with orders unless they can be reassigned', () => {
+    const workCenterId = service.orders()[0].workCenterId;
+
+    expect(service.archiveWorkCenter(workCenterId)).toBe(false);
+    expect(service.activeWorkCenters().some(workCenter => workCenter.id === workCenterId)).toBe(true);
+
+    service.addWorkCenter('Empty Line');
+    const emptyWorkCenter = service.workCenters().at(-1)!;
+
+    expect(service.archiveWorkCenter(workCenterId, emptyWorkCenter.id)).toBe(true);
+    expect(service.getOrdersForWorkCenter(workCenterId)).toEqual([]);
+  });
+
+  it('should record reassigning orders off a work center as one undoable change', () => {
+    const workCenterId = service.orders()[0].workCenterId;
+    const orderCount = service.getOrdersForWorkCenter(workCenterId).length;
+    service.addWorkCenter('Empty Line');
+    const emptyWorkCenter = service.workCenters().at(-1)!;
+
+    service.archiveWorkCenter(workCenterId, emptyWorkCenter.id);
+    expect(service.getOrdersForWorkCenter(emptyWorkCenter.id).length).toBe(orderCount);
+
+    service.undo();
+    expect(service.getOrdersForWorkCenter(workCenterId).length).toBe(orderCount);
+    expect(service.getOrdersForWorkCenter(emptyWorkCenter.id)).toEqual([]);
+  });
+
+  it('should only report an overlap once concurrent orders exceed the capacity', () => {
+    const existingOrder = service.orders()[0];
+    const { workCenterId, startDate, endDate } = existingOrder;
+
+    expect(service.hasOverlap(workCenterId, startDate, endDate)).toBe(true);
+
+    expect(service.setWorkCenterCapacity(workCenterId, 2)).toBe(true);
+    expect(service.hasOverlap(workCenterId, startDate, endDate)).toBe(false);
+
+    service.addOrder({ ...existingOrder, name: 'Parallel Job' });
+    expect(service.hasOverlap(workCenterId, startDate, endDate)).toBe(true);
+    expect(service.setWorkCenterCapacity(workCenterId, 1)).toBe(false);
+  });
+
+  it('should compare sub-day orders by time of day', () => {
+    const existingOrder = service.orders()[0];
+    const workCenterId = existingOrder.workCenterId;
+    service.updateOrder({ ...existingOrder, startDate: '2030-01-01T06:00', endDate: '2030-01-01T14:00' });
+
+    expect(service.hasOverlap(workCenterId, '2030-01-01T14:00', '2030-01-01T22:00')).toBe(false);
+    expect(service.hasOverlap(workCenterId, '2030-01-01T13:00', '2030-01-01T22:00')).toBe(true);
+    expect(service.hasOverlap(workCenterId, '2030-01-01', '2030-01-02')).toBe(true);
+  });
+
+  it('should stamp when an order becomes blocked and clear it once unblocked', () => {
+    const order = service.orders().find(existingOrder => existingOrder.status === WorkOrderStatusEnum.IN_PROGRESS)!;
+    const findOrder = () => service.orders().find(existingOrder => existingOrder.id === order.id)!;
+
+    service.updateOrder({ ...order, status: WorkOrderStatusEnum.BLOCKED, blockedReason: 'Waiting for parts' });
+    const blockedSince = findOrder().blockedSince;
+    expect(blockedSince).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/);
+
+    service.updateOrder({ ...findOrder(), name: 'Renamed', blockedSince: undefined });
+    expect(findOrder().blockedSince).toBe(blockedSince);
+
+    service.updateOrder({ ...findOrder(), status: WorkOrderStatusEnum.IN_PROGRESS });
+    expect('blockedSince' in findOrder()).toBe(false);
+  });
+
+  it('should refuse status changes the workflow does not allow', () => {
+    const completedOrder = service.orders().find(order => order.status === WorkOrderStatusEnum.COMPLETED)!;
+    const order = service.orders().find(existingOrder => existingOrder.status === WorkOrderStatusEnum.IN_PROGRESS)!;
+    const findOrder = () => service.orders().find(existingOrder => existingOrder.id === order.id)!;
+
+    expect(service.updateOrder({ ...completedOrder, status: WorkOrderStatusEnum.OPEN })).toBe(false);
+    expect(service.updateOrder({ ...order, status: WorkOrderStatusEnum.BLOCKED })).toBe(false);
+    expect(findOrder().status).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+    expect(TestBed.inject(ToastService).toasts().map(toast => toast.message)).toEqual([
+      `"${completedOrder.name}" cannot move from Completed to Open.`,
+      `A reason is required to block "${order.name}".`,
+    ]);
+
+    expect(service.updateOrder({ ...order, status: WorkOrderStatusEnum.BLOCKED, blockedReason: 'QA hold' })).toBe(true);
+    expect(findOrder().blockedFromStatus).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+
+    expect(service.updateOrder({ ...findOrder(), status: WorkOrderStatusEnum.OPEN })).toBe(false);
+    expect(service.updateOrder({ ...findOrder(), status: WorkOrderStatusEnum.IN_PROGRESS })).toBe(true);
+    expect('blockedReason' in findOrder()).toBe(false);
+  });
+
+  it('should merge changes from another tab and flag concurrent edits as conflicts', () => {
+    const scheduleSyncService = TestBed.inject(ScheduleSyncService);
+    const [firstOrder, secondOrder] = service.orders();
+    const findOrder = (orderId: string) => service.orders().find(order => order.id === orderId)!;
+    const remoteRevision = { version: 1, updatedAt: '2026-10-19T08:00:00.000Z' };
+
+    scheduleSyncService.receive({
+      type: ScheduleSyncMessageTypeEnum.ORDERS,
+      orderChanges: [{ before: firstOrder, after: { ...firstOrder, ...remoteRevision, name: 'Renamed elsewhere' } }],
+    });
+    expect(findOrder(firstOrder.id).name).toBe('Renamed elsewhere');
+
+    service.updateOrder({ ...secondOrder, name: 'Mine' });
+    scheduleSyncService.receive({
+      type: ScheduleSyncMessageTypeEnum.ORDERS,
+      orderChanges: [{ before: secondOrder, after: { ...secondOrder, ...remoteRevision, name: 'Theirs' } }],
+    });
+    expect(findOrder(secondOrder.id).name).toBe('Mine');
+    expect(service.conflicts().length).toBe(1);
+
+    service.resolveConflict(service.conflicts()[0], false);
+    expect(findOrder(secondOrder.id).name).toBe('Theirs');
+    expect(service.conflicts()).toEqual([]);
+  });
+
+  it('should hold back edits of a conflicted order and save the version chosen for it', () => {
+    const scheduleSyncService = TestBed.inject(ScheduleSyncService);
+    const [order] = service.orders();
+    const findOrder = () => service.orders().find(existingOrder => existingOrder.id === order.id)!;
+
+    service.updateOrder({ ...order, name: 'Mine' });
+    scheduleSyncService.receive({
+      type: ScheduleSyncMessageTypeEnum.ORDERS,
+      orderChanges: [{ before: order, after: { ...order, version: 1, updatedAt: '2026-10-19T08:00:00.000Z', name: 'Theirs' } }],
+    });
+
+    expect(service.updateOrder({ ...findOrder(), name: 'Mine again' })).toBe(false);
+    expect(service.undo()).toBeNull();
+    expect(findOrder().name).toBe('Mine');
+
+    service.resolveConflict(service.conflicts()[0], false);
+    expect(findOrder().name).toBe('Theirs');
+
+    let storedOrders: { id: string; name: string }[] = [];
+    TestBed.inject(LocalWorkOrderStorage).loadOrders().subscribe(orders => storedOrders = orders);
+    expect(storedOrders.find(storedOrder => storedOrder.id === order.id)?.name).toBe('Theirs');
+  });
+
+  it('should refuse an edit made on an outdated revision of an order', () => {
+    const scheduleSyncService = TestBed.inject(ScheduleSyncService);
+    const [openedOrder] = service.orders();
+    const findOrder = () => service.orders().find(order => order.id === openedOrder.id)!;
+
+    scheduleSyncService.receive({
+      type: ScheduleSyncMessageTypeEnum.ORDERS,
+      orderChanges: [{ before: openedOrder, after: { ...openedOrder, version: 1, updatedAt: '2026-10-19T08:00:00.000Z', name: 'Theirs' } }],
+    });
+
+    expect(service.updateOrder({ ...openedOrder, name: 'Mine' })).toBe(false);
+    expect(findOrder().name).toBe('Theirs');
+    expect(TestBed.inject(ToastService).toasts().map(toast => toast.message)).toEqual([
+      '"Theirs" was changed since you started editing it. Reopen it to edit the latest version.',
+    ]);
+
+    expect(service.updateOrder({ ...findOrder(), name: 'Mine' })).toBe(true);
+    expect(findOrder().name).toBe('Mine');
+  });
+
+  it('should not let undo put orders back on a replaced and deleted status', () => {
+    const statusConfigService = TestBed.inject(StatusConfigService);
+    statusConfigService.addStatus('Review', '#3e40db', StatusCategoryEnum.ACTIVE);
+    const review = statusConfigService.statuses().at(-1)!.id;
+    service.addOrder({ ...service.orders()[0], name: 'In review', status: review });
+    const order = service.orders().at(-1)!;
+    const findOrder = () => service.orders().find(existingOrder => existingOrder.id === order.id)!;
+
+    service.updateOrder({ ...order, name: 'Renamed' });
+    let deleted = false;
+    expect(service.replaceStatus(review, WorkOrderStatusEnum.IN_PROGRESS, () => deleted = statusConfigService.deleteStatus(review))).toBe(true);
+
+    expect(deleted).toBe(true);
+    expect(findOrder().status).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+
+    service.undo();
+    expect(findOrder().status).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+    expect(service.orders().some(existingOrder => existingOrder.status === review)).toBe(false);
+  });
 });
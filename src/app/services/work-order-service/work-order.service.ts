@@ -1,202 +1,186 @@
-import { Injectable, signal } from '@angular/core';
+import { computed, inject, Injectable, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { concat, forkJoin, Observable } from 'rxjs';
+
+import { HistoryService } from '../history-service/history.service';
+import { AnnouncerService } from '../announcer-service/announcer.service';
+import { ToastService } from '../toast-service/toast.service';
+import { ScheduleSyncService } from '../schedule-sync-service/schedule-sync.service';
+import { AuditLogService } from '../audit-log-service/audit-log.service';
+import { StatusWorkflowService } from '../status-workflow-service/status-workflow.service';
+import { StatusConfigService } from '../status-config-service/status-config.service';
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+import { WORK_ORDER_STORAGE } from '../work-order-storage-service/work-order-storage.token';
 
 import WorkCenter from '../../models/work-center';
 import WorkOrder from '../../models/work-order';
-import { WorkOrderStatusEnum } from '../../enums/work-order-status';
-
-const STORAGE_KEY = 'work-orders';
-
-const DEFAULT_WORK_CENTERS: WorkCenter[] = [
-  { id: 'wc1', name: 'Genesis Hardware' },
-  { id: 'wc2', name: 'Rodriques Electrics' },
-  { id: 'wc3', name: 'Konsulting Inc' },
-  { id: 'wc4', name: 'McMarrow Distribution' },
-  { id: 'wc5', name: 'Spartan Manufacturing' },
-];
-
-const SEED_ORDERS: WorkOrder[] = [
-  {
-    id: 'wo1',
-    name: 'Intrix Ltd',
-    workCenterId: 'wc1',
-    startDate: '2026-01-15',
-    endDate: '2026-03-20',
-    status: WorkOrderStatusEnum.COMPLETED,
-  },
-  {
-    id: 'wo2',
-    name: 'Rodriques Electrics',
-    workCenterId: 'wc2',
-    startDate: '2026-09-01',
-    endDate: '2026-12-15',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo3',
-    name: 'Konsulting Inc',
-    workCenterId: 'wc3',
-    startDate: '2026-09-10',
-    endDate: '2026-11-01',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo4',
-    name: 'Complex Systems',
-    workCenterId: 'wc3',
-    startDate: '2025-11-10',
-    endDate: '2026-02-15',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo5',
-    name: 'McMarrow Distribution',
-    workCenterId: 'wc4',
-    startDate: '2025-09-20',
-    endDate: '2026-01-25',
-    status: WorkOrderStatusEnum.BLOCKED,
-  },
-  {
-    id: 'wo6',
-    name: 'Apex Manufacturing',
-    workCenterId: 'wc1',
-    startDate: '2026-05-01',
-    endDate: '2026-07-15',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo7',
-    name: 'Global Logistics',
-    workCenterId: 'wc5',
-    startDate: '2026-02-01',
-    endDate: '2026-04-10',
-    status: WorkOrderStatusEnum.COMPLETED,
-  },
-  {
-    id: 'wo8',
-    name: 'Solaris Energy',
-    workCenterId: 'wc2',
-    startDate: '2026-01-10',
-    endDate: '2026-05-20',
-    status: WorkOrderStatusEnum.BLOCKED,
-  },
-  {
-    id: 'wo9',
-    name: 'Nova Tech Solutions',
-    workCenterId: 'wc4',
-    startDate: '2026-03-15',
-    endDate: '2026-06-01',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo10',
-    name: 'Starlight Foundry',
-    workCenterId: 'wc5',
-    startDate: '2026-07-20',
-    endDate: '2026-10-30',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo11',
-    name: 'Blue Horizon Labs',
-    workCenterId: 'wc1',
-    startDate: '2025-06-01',
-    endDate: '2025-08-30',
-    status: WorkOrderStatusEnum.COMPLETED,
-  },
-  {
-    id: 'wo12',
-    name: 'Quantum Circuits',
-    workCenterId: 'wc3',
-    startDate: '2026-03-01',
-    endDate: '2026-05-15',
-    status: WorkOrderStatusEnum.IN_PROGRESS,
-  },
-  {
-    id: 'wo13',
-    name: 'Horizon Analytics',
-    workCenterId: 'wc2',
-    startDate: '2025-11-01',
-    endDate: '2025-12-20',
-    status: WorkOrderStatusEnum.OPEN,
-  },
-  {
-    id: 'wo14',
-    name: 'Titan Heavy Industries',
-    workCenterId: 'wc4',
-    startDate: '2026-07-10',
-    endDate: '2026-09-05',
-    status: WorkOrderStatusEnum.OPEN,
-  },
-  {
-    id: 'wo15',
-    name: 'Velocity Cargo',
-    workCenterId: 'wc5',
-    startDate: '2026-11-15',
-    endDate: '2027-01-10',
-    status: WorkOrderStatusEnum.OPEN,
-  }
-];
+import WorkOrderChange from '../../models/work-order-change';
+import WorkOrderStorage from '../../models/work-order-storage';
+import WorkingCalendar from '../../models/working-calendar';
+import HistoryEntry from '../../models/history-entry';
+import ScheduleSyncMessage from '../../models/schedule-sync-message';
+import SyncConflict from '../../models/sync-conflict';
+import { ImportModeEnum } from '../../enums/import-mode';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { ScheduleSyncMessageTypeEnum } from '../../enums/schedule-sync-message-type';
 
 @Injectable({
   providedIn: 'root',
 })
 export class WorkOrderService {
-  readonly workCenters: WorkCenter[] = DEFAULT_WORK_CENTERS;
-  readonly orders = signal<WorkOrder[]>(this.loadOrders());
-
-  /** * WHAT: Hydrates the initial work order state.
-   * HOW: Checks for type safety (typeof localStorage), then attempts to parse
-   * persisted data, falling back to SEED_ORDERS if storage is empty or corrupt.
-   */
-  private loadOrders(): WorkOrder[] {
-    if (typeof localStorage === 'undefined') return SEED_ORDERS;
-
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
-      try {
-        return JSON.parse(raw) as WorkOrder[];
-      } catch {
-        return SEED_ORDERS;
-      }
-    }
+  private readonly historyService: HistoryService = inject(HistoryService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+  private readonly announcerService: AnnouncerService = inject(AnnouncerService);
+  private readonly toastService: ToastService = inject(ToastService);
+  private readonly scheduleSyncService: ScheduleSyncService = inject(ScheduleSyncService);
+  private readonly auditLogService: AuditLogService = inject(AuditLogService);
+  private readonly statusWorkflowService: StatusWorkflowService = inject(StatusWorkflowService);
+  private readonly statusConfigService: StatusConfigService = inject(StatusConfigService);
+
+  private readonly storage: WorkOrderStorage = inject(WORK_ORDER_STORAGE);
+
+  readonly workCenters = signal<WorkCenter[]>([]);
+  readonly orders = signal<WorkOrder[]>([]);
+  readonly loading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  // WHAT: Orders edited here and in another tab at the same time, waiting for the user's decision.
+  // HOW: Filled by 'applyRemoteChanges', emptied by 'resolveConflict'. Until then, edits and
+  // undo/redo touching these orders are refused, so they cannot overwrite the other tab's version.
+  readonly conflicts = signal<SyncConflict[]>([]);
+
+  readonly activeWorkCenters = computed(() => this.workCenters().filter(workCenter => !workCenter.archived));
+
+  constructor() {
+    this.reload();
+
+    this.scheduleSyncService.messages$
+      .pipe(takeUntilDestroyed())
+      .subscribe(message => this.applyRemoteMessage(message));
+  }
+
+  /** * WHAT: Hydrates the work order and work center state from the storage backend.
+   * HOW: Loads both collections in parallel via the WORK_ORDER_STORAGE adapter and
+   * exposes the request lifecycle through the 'loading' and 'error' Signals.
+   */
+  reload(): void {
+    this.loading.set(true);
+    this.error.set(null);
 
-    this.persist(SEED_ORDERS);
-    return SEED_ORDERS;
+    forkJoin({
+      orders: this.storage.loadOrders(),
+      workCenters: this.storage.loadWorkCenters(),
+    }).subscribe({
+      next: ({ orders, workCenters }) => {
+        this.orders.set(orders);
+        this.conflicts.set([]);
+        this.workCenters.set(workCenters);
+        this.loading.set(false);
+      },
+      error: () => {
+        this.loading.set(false);
+        this.error.set('The schedule could not be loaded.');
+      },
+    });
+  }
+
+  clearError(): void {
+    this.error.set(null);
   }
 
-  private persist(orders: WorkOrder[]): void {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(orders));
+  /** * WHAT: Settles an order that was edited here and in another tab at the same time.
+   * HOW: Both choices first adopt the other tab's version, so the re-save builds on the revision
+   * every tab now has. Whichever tab saved last still has its own version in storage, so
+   * "Use theirs" saves the adopted version again (the conflict comes back if that fails), and
+   * "Keep mine" commits this tab's version on top of it as an undoable change.
+   */
+  resolveConflict(conflict: SyncConflict, keepLocal: boolean): void {
+    this.conflicts.update(conflicts => conflicts.filter(pending => pending.orderId !== conflict.orderId));
+
+    const localOrder = this.orders().find(order => order.id === conflict.orderId) ?? null;
+    this.orders.update(currentOrders =>
+      this.mergeChanges(currentOrders, [{ before: localOrder, after: conflict.remote }])
+    );
+    if (!localOrder && !conflict.remote) return;
+
+    const name = (localOrder ?? conflict.remote)!.name;
+    if (keepLocal) {
+      this.commit(`Keep your version of "${name}"`, [{ before: conflict.remote, after: localOrder }]);
+      return;
     }
+
+    this.applyChanges(
+      [{ before: localOrder, after: conflict.remote }],
+      `Use the other tab's version of "${name}"`,
+      () => this.conflicts.update(conflicts => [...conflicts, conflict])
+    );
   }
 
   getOrdersForWorkCenter(workCenterId: string): WorkOrder[] {
     return this.orders().filter(wordOrder => wordOrder.workCenterId === workCenterId);
   }
 
+  getCapacity(workCenterId: string): number {
+    return this.workCenters().find(workCenter => workCenter.id === workCenterId)?.capacity ?? 1;
+  }
+
   /** * WHAT: Validates scheduling conflicts for a specific work center.
-   * HOW: Performs an interval intersection check (StartA < EndB && EndA > StartB)
-   * across existing orders, ignoring the order being edited via its ID.
+   * HOW: Collects the existing orders that intersect the new dates (StartA < EndB && EndA > StartB),
+   * ignoring the order being edited via its ID, and only reports a conflict when adding the
+   * new order would push the number of concurrent orders above the work center's capacity.
+   * 'orders' defaults to the current schedule but can be a draft one (e.g. a cascade plan).
    */
   hasOverlap(
     workCenterId: string,
     newOrderStartDate: string,
     newOrderEndDate: string,
-    excludeOrderId?: string
+    excludeOrderId?: string,
+    orders: WorkOrder[] = this.orders()
   ): boolean {
-    const newOrderStartTimestamp = new Date(newOrderStartDate).getTime();
-    const newOrderEndTimestamp = new Date(newOrderEndDate).getTime();
-    const existingOrdersForWorkCenter =
-      this.getOrdersForWorkCenter(workCenterId);
+    const existingOrdersForWorkCenter = orders
+      .filter(existingOrder => existingOrder.workCenterId === workCenterId)
+      .filter(existingOrder => !excludeOrderId || existingOrder.id !== excludeOrderId);
+
+    return this.exceedsCapacity(
+      this.getCapacity(workCenterId),
+      newOrderStartDate,
+      newOrderEndDate,
+      existingOrdersForWorkCenter
+    );
+  }
+
+  /** * WHAT: Finds the highest number of orders running at the same time on a work center.
+   * HOW: Concurrency can only peak when an order starts, so it counts the orders
+   * covering each start timestamp and keeps the maximum.
+   */
+  getPeakConcurrency(workCenterId: string): number {
+    const ordersForWorkCenter = this.getOrdersForWorkCenter(workCenterId);
+
+    return ordersForWorkCenter.reduce((peak, order) => Math.max(
+      peak,
+      this.countConcurrentOrdersAt(ordersForWorkCenter, this.getTime(order.startDate))
+    ), 0);
+  }
 
-    return existingOrdersForWorkCenter.some(existingOrder  => {
-      if (excludeOrderId && existingOrder.id === excludeOrderId) return false;
+  /** * WHAT: Checks whether an interval fits next to a list of orders under a capacity.
+   * HOW: Keeps only the orders intersecting the interval, then measures their concurrency
+   * at every point where it can increase inside the interval (its start and each order start).
+   */
+  private exceedsCapacity(
+    capacity: number,
+    newOrderStartDate: string,
+    newOrderEndDate: string,
+    existingOrders: WorkOrder[]
+  ): boolean {
+    const newOrderStartTimestamp = this.getTime(newOrderStartDate);
+    const newOrderEndTimestamp = this.getTime(newOrderEndDate);
 
+    const intersectingOrders = existingOrders.filter(existingOrder => {
       const existingOrderStartTimestamp =
-        new Date(existingOrder.startDate).getTime();
+        this.getTime(existingOrder.startDate);
 
       const existingOrderEndTimestamp =
-        new Date(existingOrder.endDate).getTime();
+        this.getTime(existingOrder.endDate);
 
       const startsBeforeExistingEnds =
         newOrderStartTimestamp < existingOrderEndTimestamp;
@@ -206,59 +190,587 @@ export class WorkOrderService {
 
       return startsBeforeExistingEnds && endsAfterExistingStarts;
     });
+
+    if (intersectingOrders.length < capacity) return false;
+
+    const candidateTimestamps = [
+      newOrderStartTimestamp,
+      ...intersectingOrders.map(order => Math.max(newOrderStartTimestamp, this.getTime(order.startDate))),
+    ];
+
+    return candidateTimestamps.some(timestamp =>
+      this.countConcurrentOrdersAt(intersectingOrders, timestamp) + 1 > capacity
+    );
+  }
+
+  private countConcurrentOrdersAt(orders: WorkOrder[], timestamp: number): number {
+    return orders.filter(order => {
+      const startTimestamp = this.getTime(order.startDate);
+      const endTimestamp = this.getTime(order.endDate);
+      return startTimestamp <= timestamp && (timestamp < endTimestamp || startTimestamp === endTimestamp);
+    }).length;
+  }
+
+  /** * WHAT: Converts a stored date or date-time into a timestamp.
+   * HOW: Parses in local time, so date-only orders start at local midnight and
+   * compare correctly with orders that carry a time of day.
+   */
+  private getTime(dateIso: string): number {
+    return this.timelineUtilService.parseIsoDate(dateIso).getTime();
+  }
+
+  /** * WHAT: Creates a new work center row at the bottom of the timeline.
+   * HOW: Generates a UUID and saves the whole (ordered) work center list.
+   */
+  addWorkCenter(name: string): void {
+    this.saveWorkCenters([...this.workCenters(), { id: crypto.randomUUID(), name: name.trim() }]);
+  }
+
+  renameWorkCenter(workCenterId: string, name: string): void {
+    this.saveWorkCenters(this.workCenters().map(workCenter =>
+      workCenter.id === workCenterId ? { ...workCenter, name: name.trim() } : workCenter
+    ));
+  }
+
+  /** * WHAT: Moves a work center one row up (-1) or down (1).
+   * HOW: Swaps it with its neighbour in the list, since list order is the row order.
+   */
+  moveWorkCenter(workCenterId: string, direction: -1 | 1): void {
+    const workCenters = [...this.workCenters()];
+    const currentIndex = workCenters.findIndex(workCenter => workCenter.id === workCenterId);
+    const targetIndex = currentIndex + direction;
+    if (currentIndex === -1 || targetIndex < 0 || targetIndex >= workCenters.length) return;
+
+    [workCenters[currentIndex], workCenters[targetIndex]] = [workCenters[targetIndex], workCenters[currentIndex]];
+    this.saveWorkCenters(workCenters);
+  }
+
+  /** * WHAT: Sets how many orders a work center can run in parallel.
+   * HOW: Blocked (returns false) when the new capacity is below the concurrency the
+   * current schedule already needs, so existing orders never become invalid.
+   */
+  setWorkCenterCapacity(workCenterId: string, capacity: number): boolean {
+    const normalizedCapacity = Math.max(1, Math.floor(capacity));
+    if (normalizedCapacity < this.getPeakConcurrency(workCenterId)) return false;
+
+    this.saveWorkCenters(this.workCenters().map(workCenter =>
+      workCenter.id === workCenterId ? { ...workCenter, capacity: normalizedCapacity } : workCenter
+    ));
+    return true;
+  }
+
+  /** * WHAT: Gives a work center its own working calendar.
+   * HOW: Passing null removes the override, so the center follows the default calendar again.
+   */
+  setWorkCenterCalendar(workCenterId: string, calendar: WorkingCalendar | null): void {
+    this.saveWorkCenters(this.workCenters().map(workCenter => {
+      if (workCenter.id !== workCenterId) return workCenter;
+
+      const { calendar: _previousCalendar, ...rest } = workCenter;
+      return calendar ? { ...rest, calendar } : rest;
+    }));
+  }
+
+  restoreWorkCenter(workCenterId: string): void {
+    this.saveWorkCenters(this.workCenters().map(workCenter =>
+      workCenter.id === workCenterId ? { ...workCenter, archived: false } : workCenter
+    ));
+  }
+
+  /** * WHAT: Hides a work center from the timeline without losing it.
+   * HOW: Blocked (returns false) while the center still has orders, unless they can
+   * all be moved to 'reassignToId' without overlaps; they are moved before archiving.
+   */
+  archiveWorkCenter(workCenterId: string, reassignToId?: string): boolean {
+    if (!this.reassignOrders(workCenterId, reassignToId)) return false;
+
+    this.saveWorkCenters(this.workCenters().map(workCenter =>
+      workCenter.id === workCenterId ? { ...workCenter, archived: true } : workCenter
+    ));
+    return true;
+  }
+
+  /** * WHAT: Permanently removes a work center.
+   * HOW: Applies the same safety rule as archiving, so no order is ever left
+   * pointing at a work center that no longer exists.
+   */
+  deleteWorkCenter(workCenterId: string, reassignToId?: string): boolean {
+    if (!this.reassignOrders(workCenterId, reassignToId)) return false;
+
+    this.saveWorkCenters(this.workCenters().filter(workCenter => workCenter.id !== workCenterId));
+    return true;
+  }
+
+  /** * WHAT: Checks whether every order of one work center fits on another.
+   * HOW: Places the orders on the target one by one, checking each against the
+   * target's capacity together with the orders already placed before it.
+   */
+  canReassignOrders(fromWorkCenterId: string, toWorkCenterId: string): boolean {
+    const targetCapacity = this.getCapacity(toWorkCenterId);
+    const placedOrders = this.getOrdersForWorkCenter(toWorkCenterId);
+
+    return this.getOrdersForWorkCenter(fromWorkCenterId).every(order => {
+      if (this.exceedsCapacity(targetCapacity, order.startDate, order.endDate, placedOrders)) return false;
+
+      placedOrders.push(order);
+      return true;
+    });
+  }
+
+  /** * WHAT: Empties a work center ahead of archiving or deleting it.
+   * HOW: Succeeds immediately when there is nothing to move. Otherwise requires a valid,
+   * different target that fits every order, and commits all moves as one undoable change.
+   */
+  private reassignOrders(fromWorkCenterId: string, toWorkCenterId?: string): boolean {
+    const ordersToMove = this.getOrdersForWorkCenter(fromWorkCenterId);
+    if (!ordersToMove.length) return true;
+
+    const isValidTarget = this.activeWorkCenters().some(workCenter =>
+      workCenter.id === toWorkCenterId && workCenter.id !== fromWorkCenterId
+    );
+    if (!toWorkCenterId || !isValidTarget || !this.canReassignOrders(fromWorkCenterId, toWorkCenterId)) {
+      return false;
+    }
+
+    const changes = ordersToMove.map(order => ({ before: order, after: { ...order, workCenterId: toWorkCenterId } }));
+    const fromName = this.workCenters().find(workCenter => workCenter.id === fromWorkCenterId)?.name;
+    return this.commit(`Move ${ordersToMove.length} orders off "${fromName}"`, changes) !== null;
+  }
+
+  /** * WHAT: Optimistically replaces the work center list.
+   * HOW: Sets the Signal first and restores the previous list if the backend rejects it.
+   */
+  private saveWorkCenters(workCenters: WorkCenter[]): void {
+    const previousWorkCenters = this.workCenters();
+    this.workCenters.set(workCenters);
+
+    this.storage.saveWorkCenters(workCenters).subscribe({
+      next: savedWorkCenters => this.scheduleSyncService.publish({
+        type: ScheduleSyncMessageTypeEnum.WORK_CENTERS,
+        workCenters: savedWorkCenters,
+      }),
+      error: () => {
+        this.workCenters.set(previousWorkCenters);
+        this.error.set('Your work center changes could not be saved and have been rolled back.');
+      },
+    });
   }
 
   /** * WHAT: Adds a new work order to the system.
    * HOW: Generates a cryptographically strong unique ID using the native Web Crypto API,
-   * then updates the Signal state immutably to trigger efficient UI re-renders.
-   */
-  addOrder(newOrderData: Omit<WorkOrder, 'id'>): void {
-    this.orders.update(currentOrders => {
-      const generatedOrderId = crypto.randomUUID();
-      const newWorkOrder: WorkOrder = {
-        ...newOrderData,
-        id: generatedOrderId
-      }
+   * then commits the creation as an undoable change. Refused (returns false) when it
+   * breaks the status workflow, e.g. a blocked order without a reason.
+   */
+  addOrder(newOrderData: Omit<WorkOrder, 'id'>): boolean {
+    const newWorkOrder: WorkOrder = {
+      ...newOrderData,
+      id: crypto.randomUUID()
+    };
+
+    return this.commitValidated(`Create "${newWorkOrder.name}"`, [{ before: null, after: newWorkOrder }]);
+  }
+
+  /** * WHAT: Updates the details of an existing work order.
+   * HOW: Captures the current record as the 'before' state so the replacement
+   * can be reverted, then commits it as an undoable change. Returns false when the
+   * order no longer exists or the edit is refused (a status change the workflow does
+   * not allow, an outdated revision or a pending sync conflict).
+   */
+  updateOrder(updatedOrder: WorkOrder): boolean {
+    const existingOrder = this.orders().find(order => order.id === updatedOrder.id);
+    if (!existingOrder) return false;
 
-      const updatedOrdersList = [
-        ...currentOrders,
-        newWorkOrder
+    return this.commitValidated(`Update "${updatedOrder.name}"`, [{ before: existingOrder, after: updatedOrder }]);
+  }
+
+  /** * WHAT: Updates several existing work orders as a single undoable change.
+   * HOW: Pairs every replacement with its current record and commits them under one
+   * history entry, so the whole set is applied, rolled back or undone together.
+   * Nothing is applied when any of them breaks the status workflow.
+   */
+  updateOrders(updatedOrders: WorkOrder[], label: string): boolean {
+    const changes: WorkOrderChange[] = updatedOrders
+      .map(updatedOrder => ({
+        before: this.orders().find(order => order.id === updatedOrder.id) ?? null,
+        after: updatedOrder,
+      }))
+      .filter(change => change.before !== null);
+    if (!changes.length) return false;
+
+    return this.commitValidated(label, changes);
+  }
+
+  /** * WHAT: Moves every order off a status ahead of deleting its definition.
+   * HOW: Rewrites both the current status and the status blocked orders return to. This is
+   * configuration upkeep, so it skips the workflow check and is not undoable: undo could only
+   * bring back a status that is about to be deleted, which is also why history entries that
+   * would restore it are dropped. 'onReplaced' runs once the backend has saved the change, so
+   * the definition is never deleted while a rollback can still put orders back on it.
+   * Refused (returns false) while any of the orders has an unresolved sync conflict.
+   */
+  replaceStatus(fromStatusId: string, toStatusId: string, onReplaced: () => void): boolean {
+    const usesStatus = (order: WorkOrder | null) =>
+      order !== null && (order.status === fromStatusId || order.blockedFromStatus === fromStatusId);
+
+    const changes: WorkOrderChange[] = this.orders()
+      .filter(order => usesStatus(order))
+      .map(order => ({
+        before: order,
+        after: {
+          ...order,
+          status: order.status === fromStatusId ? toStatusId : order.status,
+          ...(order.blockedFromStatus === fromStatusId && { blockedFromStatus: toStatusId }),
+        },
+      }));
+    if (this.refuseConflictedChanges(changes)) return false;
+
+    this.historyService.removeMatching(entry => entry.changes.some(change => usesStatus(change.before) || usesStatus(change.after)));
+    if (!changes.length) {
+      onReplaced();
+      return true;
+    }
+
+    const fromLabel = this.statusConfigService.getLabel(fromStatusId);
+    const toLabel = this.statusConfigService.getLabel(toStatusId);
+    this.applyChanges(
+      changes,
+      `Replace status "${fromLabel}" with "${toLabel}" on ${changes.length} ${changes.length === 1 ? 'order' : 'orders'}`,
+      () => undefined,
+      onReplaced
+    );
+    return true;
+  }
+
+  /** * WHAT: Loads validated imported orders (and work centers) into the schedule.
+   * HOW: Only adds the work centers that do not exist yet, so undoing the import never
+   * leaves orders without a row. Orders are upserted by ID (merge) or swapped in for the
+   * whole current schedule (replace), as a single undoable change.
+   */
+  importSchedule(importedOrders: WorkOrder[], importedWorkCenters: WorkCenter[], mode: ImportModeEnum): HistoryEntry | null {
+    const newWorkCenters = importedWorkCenters.filter(importedWorkCenter =>
+      !this.workCenters().some(workCenter => workCenter.id === importedWorkCenter.id)
+    );
+    if (newWorkCenters.length) {
+      this.saveWorkCenters([...this.workCenters(), ...newWorkCenters]);
+    }
+
+    const currentOrders = this.orders();
+    const changes: WorkOrderChange[] = mode === ImportModeEnum.REPLACE
+      ? [
+        ...currentOrders.map(order => ({ before: order, after: null })),
+        ...importedOrders.map(order => ({ before: null, after: order })),
       ]
+      : importedOrders.map(order => ({
+        before: currentOrders.find(existingOrder => existingOrder.id === order.id) ?? null,
+        after: order,
+      }));
+    if (!changes.length) return null;
 
-      this.persist(updatedOrdersList);
-      return updatedOrdersList;
-    })
+    return this.commit(`Import ${importedOrders.length} orders`, changes);
   }
 
-  /** * WHAT: Updates the details of an existing work order.
-   * HOW: Maps through the current state to replace the matching ID with
-   * new data, followed by a persistence call to save the updated state.
-   */
-  updateOrder(updatedOrder: WorkOrder): void {
-    this.orders.update(currentOrders => {
-      const updatedOrdersList = currentOrders.map(existingOrder =>
-        existingOrder.id === updatedOrder.id
-          ? updatedOrder
-          : existingOrder
-      );
-
-      this.persist(updatedOrdersList);
-      return updatedOrdersList;
+  /** * WHAT: Removes a work order from the schedule.
+   * HOW: Commits the removal (plus the cleanup of any dependency links pointing at it)
+   * as one undoable change and returns the history entry, so the caller can offer a
+   * targeted "Undo" for this exact deletion.
+   */
+  deleteOrder(orderIdToDelete: string): HistoryEntry | null {
+    const existingOrder = this.orders().find(order => order.id === orderIdToDelete);
+    if (!existingOrder) return null;
+
+    return this.deleteOrders([orderIdToDelete], `Delete "${existingOrder.name}"`);
+  }
+
+  /** * WHAT: Removes several work orders as a single undoable change.
+   * HOW: Same as 'deleteOrder', with the dependency cleanup limited to the orders that remain.
+   */
+  deleteOrders(
+    orderIdsToDelete: string[],
+    label = `Delete ${orderIdsToDelete.length} ${orderIdsToDelete.length === 1 ? 'order' : 'orders'}`
+  ): HistoryEntry | null {
+    const idsToDelete = new Set(orderIdsToDelete);
+    const existingOrders = this.orders().filter(order => idsToDelete.has(order.id));
+    if (!existingOrders.length) return null;
+
+    const successorChanges: WorkOrderChange[] = this.orders()
+      .filter(order => !idsToDelete.has(order.id))
+      .filter(order => order.dependencies?.some(dependency => idsToDelete.has(dependency.predecessorId)))
+      .map(successor => ({
+        before: successor,
+        after: {
+          ...successor,
+          dependencies: successor.dependencies!.filter(dependency => !idsToDelete.has(dependency.predecessorId)),
+        },
+      }));
+
+    return this.commit(label, [
+      ...existingOrders.map(order => ({ before: order, after: null })),
+      ...successorChanges,
+    ]);
+  }
+
+  /** * WHAT: Reverts the most recent mutation.
+   * HOW: Takes the latest entry from the HistoryService and applies its inverted
+   * change set. Passing 'entryId' restricts the undo to that specific entry.
+   */
+  undo(entryId?: string): HistoryEntry | null {
+    const entry = this.historyService.takeUndo(entryId);
+    if (!entry) return null;
+
+    if (this.refuseConflictedChanges(entry.changes)) {
+      this.historyService.takeRedo();
+      return null;
+    }
+
+    this.applyChanges(this.historyService.invert(entry.changes), `Undo: ${entry.label}`, () => this.historyService.takeRedo());
+    return entry;
+  }
+
+  /** * WHAT: Re-applies the most recently undone mutation.
+   * HOW: Takes the latest entry from the redo stack and applies its original change set.
+   */
+  redo(): HistoryEntry | null {
+    const entry = this.historyService.takeRedo();
+    if (!entry) return null;
+
+    if (this.refuseConflictedChanges(entry.changes)) {
+      this.historyService.takeUndo();
+      return null;
+    }
+
+    this.applyChanges(entry.changes, `Redo: ${entry.label}`, () => this.historyService.takeUndo());
+    return entry;
+  }
+
+  /** * WHAT: Commits user edits only if every one of them follows the status workflow.
+   * HOW: The first violation is shown as a toast (also read out by screen readers), and nothing is applied.
+   * Edits built on an older revision than this tab has are refused the same way.
+   * Undo, redo, imports and conflict resolution restore saved states and skip this check.
+   */
+  private commitValidated(label: string, changes: WorkOrderChange[]): boolean {
+    if (this.refuseStaleChanges(changes)) return false;
+
+    const violation = changes
+      .map(change => this.statusWorkflowService.validateChange(change.before, change.after!))
+      .find(message => message !== null);
+
+    if (violation) {
+      this.toastService.show(violation);
+      return false;
+    }
+
+    return this.commit(label, changes) !== null;
+  }
+
+  /** * WHAT: Records a change set as one history entry and applies it.
+   * HOW: Refused (returns null) while any of its orders has an unresolved sync conflict.
+   */
+  private commit(label: string, changes: WorkOrderChange[]): HistoryEntry | null {
+    if (this.refuseConflictedChanges(changes)) return null;
+
+    const entry: HistoryEntry = { id: crypto.randomUUID(), label, changes: this.stampBlockedState(changes) };
+
+    this.historyService.record(entry);
+    this.applyChanges(entry.changes, entry.label, () => this.historyService.remove(entry.id));
+    this.announcerService.announce(`Done: ${entry.label}`);
+    return entry;
+  }
+
+  /** * WHAT: Records when an order became blocked (used by the "blocked too long" warning)
+   * and the status it was blocked from (the only status the workflow lets it return to).
+   * HOW: Keeps both while the order stays in a status of the blocked category, sets them when
+   * it enters one (a new blocked order counts as blocked from the default not-started status)
+   * and drops them, together with the block reason, for any other status. Undo restores the
+   * 'before' records, so reverted changes get their original values back.
+   */
+  private stampBlockedState(changes: WorkOrderChange[]): WorkOrderChange[] {
+    const now = this.timelineUtilService.formatIsoDateTime(new Date());
+    const isBlocked = (order: WorkOrder | null) =>
+      !!order && this.statusConfigService.isInCategory(order.status, StatusCategoryEnum.BLOCKED);
+
+    return changes.map(({ before, after }) => {
+      if (!after) return { before, after };
+
+      if (!isBlocked(after)) {
+        const { blockedSince, blockedReason, blockedFromStatus, ...unblockedOrder } = after;
+        const hasBlockedState = blockedSince !== undefined || blockedReason !== undefined || blockedFromStatus !== undefined;
+        return { before, after: hasBlockedState ? unblockedOrder : after };
+      }
+
+      const wasBlocked = isBlocked(before);
+      const blockedSince = after.blockedSince ?? (wasBlocked ? before!.blockedSince : now);
+      const blockedFromStatus = wasBlocked
+        ? before!.blockedFromStatus
+        : before?.status ?? this.statusConfigService.getDefaultStatusId(StatusCategoryEnum.NOT_STARTED) ?? undefined;
+
+      return {
+        before,
+        after: {
+          ...after,
+          ...(blockedSince === undefined ? {} : { blockedSince }),
+          ...(blockedFromStatus === undefined ? {} : { blockedFromStatus }),
+        },
+      };
     });
   }
 
-  /** * WHAT: Removes a work order from the schedule.
-   * HOW: Filters the Signal state to exclude the target ID and updates
-   * localStorage to reflect the removal across refreshes.
+  /** * WHAT: Applies a set of creations, updates and removals optimistically.
+   * HOW: Updates the Signal immediately, then replays the changes against the storage
+   * backend in order. If any request fails, the inverse changes are applied locally,
+   * 'onRollback' restores the history stacks and the error is surfaced to the UI.
+   * Only saved changes reach the audit log (under 'label'), the other tabs and 'onSaved'.
+   */
+  private applyChanges(changes: WorkOrderChange[], label: string, onRollback: () => void, onSaved?: () => void): void {
+    const publishedChanges = this.stampRevisions(changes);
+    const stampedChanges = changes.map((change, index) => ({ before: change.before, after: publishedChanges[index].after }));
+
+    this.orders.update(currentOrders => this.mergeChanges(currentOrders, stampedChanges));
+
+    this.syncChanges(stampedChanges).subscribe({
+      error: () => {
+        this.orders.update(currentOrders =>
+          this.mergeChanges(currentOrders, this.historyService.invert(stampedChanges))
+        );
+        onRollback();
+        this.error.set('Your last change could not be saved and has been rolled back.');
+      },
+      complete: () => {
+        this.auditLogService.record(label, stampedChanges).subscribe({
+          error: () => this.error.set('Your last change was saved but could not be added to the change history.'),
+        });
+        this.scheduleSyncService.publish({
+          type: ScheduleSyncMessageTypeEnum.ORDERS,
+          orderChanges: publishedChanges,
+        });
+        onSaved?.();
+      },
+    });
+  }
+
+  /** * WHAT: Gives every record a change set writes a new revision (version + updatedAt).
+   * HOW: The version continues from the record as this tab currently has it, and each change
+   * is returned with that record as 'before'. Other tabs compare 'before' with their own copy
+   * to tell a clean update from a conflicting edit. Changes to the same order build on each other.
    */
-  deleteOrder(orderIdToDelete: string): void {
-    this.orders.update(currentOrders => {
-      const updatedOrdersList = currentOrders.filter(
-        existingOrder => existingOrder.id !== orderIdToDelete
-      );
+  private stampRevisions(changes: WorkOrderChange[]): WorkOrderChange[] {
+    const updatedAt = new Date().toISOString();
+    let currentOrders = this.orders();
 
-      this.persist(updatedOrdersList);
-      return updatedOrdersList;
+    return changes.map(change => {
+      const orderId = (change.after ?? change.before)!.id;
+      const currentOrder = currentOrders.find(order => order.id === orderId) ?? null;
+      const after = change.after && { ...change.after, version: (currentOrder?.version ?? 0) + 1, updatedAt };
+
+      currentOrders = this.mergeChanges(currentOrders, [{ before: currentOrder, after }]);
+      return { before: currentOrder, after };
     });
   }
+
+  private applyRemoteMessage(message: ScheduleSyncMessage): void {
+    if (message.type === ScheduleSyncMessageTypeEnum.WORK_CENTERS && message.workCenters) {
+      this.workCenters.set(message.workCenters);
+    }
+
+    if (message.type === ScheduleSyncMessageTypeEnum.ORDERS && message.orderChanges) {
+      this.applyRemoteChanges(message.orderChanges);
+    }
+  }
+
+  /** * WHAT: Merges changes saved in another tab into this tab's schedule.
+   * HOW: A change applies cleanly when this tab still has the revision it was based on, and is
+   * skipped when this tab already has its result. Anything else means the order was edited here
+   * as well, so both versions are kept as a conflict instead of silently overwriting one of them.
+   */
+  private applyRemoteChanges(changes: WorkOrderChange[]): void {
+    for (const change of changes) {
+      const orderId = (change.after ?? change.before)!.id;
+      const localOrder = this.orders().find(order => order.id === orderId) ?? null;
+
+      if (this.isSameRevision(localOrder, change.after)) continue;
+
+      if (this.isSameRevision(localOrder, change.before)) {
+        this.orders.update(currentOrders =>
+          this.mergeChanges(currentOrders, [{ before: localOrder, after: change.after }])
+        );
+        continue;
+      }
+
+      this.conflicts.update(conflicts => [
+        ...conflicts.filter(conflict => conflict.orderId !== orderId),
+        { orderId, local: localOrder, remote: change.after },
+      ]);
+    }
+  }
+
+  /** * WHAT: Keeps edits, undo and redo away from orders waiting for a conflict decision.
+   * HOW: Applying them would build on a version the user has not chosen yet, so the change
+   * set is refused as a whole and a toast asks to settle the conflict first.
+   */
+  private refuseConflictedChanges(changes: WorkOrderChange[]): boolean {
+    const conflict = this.conflicts().find(pending =>
+      changes.some(change => (change.after ?? change.before)!.id === pending.orderId)
+    );
+    if (!conflict) return false;
+
+    const name = (conflict.local ?? conflict.remote)?.name ?? conflict.orderId;
+    this.toastService.show(`"${name}" was also changed in another tab. Keep your version or use theirs first.`);
+    return true;
+  }
+
+  /** * WHAT: Keeps an edit made on an outdated copy of an order from overwriting newer changes.
+   * HOW: Every edited order must still carry the revision this tab has (e.g. a panel opened
+   * before another tab saved the same order). Otherwise the change set is refused as a whole
+   * and a toast asks to reopen the order, so the newer changes are never silently lost.
+   */
+  private refuseStaleChanges(changes: WorkOrderChange[]): boolean {
+    const staleChange = changes.find(change => change.before && change.after && !this.isSameRevision(change.before, change.after));
+    if (!staleChange) return false;
+
+    this.toastService.show(`"${staleChange.before!.name}" was changed since you started editing it. Reopen it to edit the latest version.`);
+    return true;
+  }
+
+  private isSameRevision(first: WorkOrder | null, second: WorkOrder | null): boolean {
+    if (!first || !second) return first === second;
+    return first.version === second.version && first.updatedAt === second.updatedAt;
+  }
+
+  /** * WHAT: Folds a change set into an order list without mutating it.
+   * HOW: Walks the changes in order ('before' null = insert, 'after' null = remove,
+   * otherwise replace by ID); a replacement of a missing record is treated as an insert.
+   */
+  private mergeChanges(currentOrders: WorkOrder[], changes: WorkOrderChange[]): WorkOrder[] {
+    let updatedOrdersList = currentOrders;
+
+    for (const change of changes) {
+      const targetOrderId = (change.after ?? change.before)!.id;
+      const withoutTarget = updatedOrdersList.filter(existingOrder => existingOrder.id !== targetOrderId);
+
+      if (!change.after) {
+        updatedOrdersList = withoutTarget;
+      } else if (withoutTarget.length === updatedOrdersList.length) {
+        updatedOrdersList = [...updatedOrdersList, change.after];
+      } else {
+        updatedOrdersList = updatedOrdersList.map(existingOrder =>
+          existingOrder.id === targetOrderId
+            ? change.after!
+            : existingOrder
+        );
+      }
+    }
+
+    return updatedOrdersList;
+  }
+
+  /** * WHAT: Translates a change set into storage backend calls.
+   * HOW: Maps inserts to create, removals to delete and everything else to update,
+   * then runs them sequentially so the backend sees the same order as the UI.
+   */
+  private syncChanges(changes: WorkOrderChange[]): Observable<unknown> {
+    return concat(...changes.map(change => {
+      if (!change.before) return this.storage.createOrder(change.after!);
+      if (!change.after) return this.storage.deleteOrder(change.before.id);
+      return this.storage.updateOrder(change.after);
+    }));
+  }
 }
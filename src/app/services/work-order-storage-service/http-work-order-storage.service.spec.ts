@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+import { HttpWorkOrderStorage } from './http-work-order-storage.service';
+import { mockWorkOrderApiInterceptor } from './mock-work-order-api.interceptor';
+
+import WorkOrder from '../../models/work-order';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('HttpWorkOrderStorage', () => {
+  let service: HttpWorkOrderStorage;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([mockWorkOrderApiInterceptor]))],
+    });
+    service = TestBed.inject(HttpWorkOrderStorage);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should round-trip orders through the mock API', async () => {
+    const [firstOrder] = await firstValueFrom(service.loadOrders());
+
+    await firstValueFrom(service.updateOrder({ ...firstOrder, name: 'Renamed' }));
+    const orders = await firstValueFrom(service.loadOrders());
+
+    expect(orders.find(order => order.id === firstOrder.id)?.name).toBe('Renamed');
+  });
+
+  it('should migrate numeric statuses served by the API', async () => {
+    const legacyOrder = {
+      id: 'legacy-wo', name: 'Legacy', workCenterId: 'wc1', startDate: '2026-01-01', endDate: '2026-01-05',
+      status: 3, blockedFromStatus: 1,
+    } as unknown as WorkOrder;
+
+    await firstValueFrom(service.createOrder(legacyOrder));
+    const orders = await firstValueFrom(service.loadOrders());
+    await firstValueFrom(service.deleteOrder(legacyOrder.id));
+
+    expect(orders.find(order => order.id === legacyOrder.id)).toEqual({
+      ...legacyOrder, status: WorkOrderStatusEnum.BLOCKED, blockedFromStatus: WorkOrderStatusEnum.IN_PROGRESS,
+    });
+  });
+
+  it('should save the status list through the mock API', async () => {
+    const statuses = await firstValueFrom(service.loadStatuses());
+    const renamedStatuses = statuses.map(status => status.id === WorkOrderStatusEnum.OPEN ? { ...status, label: 'To do' } : status);
+
+    await firstValueFrom(service.saveStatuses(renamedStatuses));
+
+    expect(await firstValueFrom(service.loadStatuses())).toEqual(renamedStatuses);
+    await firstValueFrom(service.saveStatuses(statuses));
+  });
+});
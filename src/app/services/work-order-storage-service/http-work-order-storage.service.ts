@@ -0,0 +1,70 @@
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { map, Observable } from 'rxjs';
+
+import { migrateLegacyOrder } from '../status-config-service/legacy-status-ids';
+
+import WorkOrderStorage from '../../models/work-order-storage';
+import WorkOrder from '../../models/work-order';
+import WorkCenter from '../../models/work-center';
+import AuditEntry from '../../models/audit-entry';
+import StatusDefinition from '../../models/status-definition';
+
+export const WORK_ORDER_API_URL = new InjectionToken<string>('WORK_ORDER_API_URL', {
+  providedIn: 'root',
+  factory: () => '/api',
+});
+
+/** * WHAT: Persists the schedule through the Work Order REST API.
+ * HOW: Maps every storage operation 1:1 onto the endpoints documented in the README
+ * (GET/POST/PUT/DELETE /work-orders, GET/PUT /work-centers and /statuses, GET/POST audit log).
+ * IDs are generated client-side.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpWorkOrderStorage implements WorkOrderStorage {
+  private readonly http: HttpClient = inject(HttpClient);
+  private readonly apiUrl: string = inject(WORK_ORDER_API_URL);
+
+  // Orders saved before statuses became configurable hold numeric statuses; those are mapped to status ids.
+  loadOrders(): Observable<WorkOrder[]> {
+    return this.http.get<WorkOrder[]>(`${this.apiUrl}/work-orders`).pipe(map(orders => orders.map(migrateLegacyOrder)));
+  }
+
+  loadWorkCenters(): Observable<WorkCenter[]> {
+    return this.http.get<WorkCenter[]>(`${this.apiUrl}/work-centers`);
+  }
+
+  saveWorkCenters(workCenters: WorkCenter[]): Observable<WorkCenter[]> {
+    return this.http.put<WorkCenter[]>(`${this.apiUrl}/work-centers`, workCenters);
+  }
+
+  loadStatuses(): Observable<StatusDefinition[]> {
+    return this.http.get<StatusDefinition[]>(`${this.apiUrl}/statuses`);
+  }
+
+  saveStatuses(statuses: StatusDefinition[]): Observable<StatusDefinition[]> {
+    return this.http.put<StatusDefinition[]>(`${this.apiUrl}/statuses`, statuses);
+  }
+
+  createOrder(order: WorkOrder): Observable<WorkOrder> {
+    return this.http.post<WorkOrder>(`${this.apiUrl}/work-orders`, order);
+  }
+
+  updateOrder(order: WorkOrder): Observable<WorkOrder> {
+    return this.http.put<WorkOrder>(`${this.apiUrl}/work-orders/${encodeURIComponent(order.id)}`, order);
+  }
+
+  deleteOrder(orderId: string): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/work-orders/${encodeURIComponent(orderId)}`);
+  }
+
+  loadAuditEntries(orderId: string): Observable<AuditEntry[]> {
+    return this.http.get<AuditEntry[]>(`${this.apiUrl}/work-orders/${encodeURIComponent(orderId)}/audit-log`);
+  }
+
+  appendAuditEntries(entries: AuditEntry[]): Observable<AuditEntry[]> {
+    return this.http.post<AuditEntry[]>(`${this.apiUrl}/audit-log`, entries);
+  }
+}
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+
+import { AUDIT_LOG_LIMIT, LocalWorkOrderStorage } from './local-work-order-storage.service';
+
+import AuditEntry from '../../models/audit-entry';
+import { AuditActionEnum } from '../../enums/audit-action';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+
+describe('LocalWorkOrderStorage', () => {
+  let service: LocalWorkOrderStorage;
+
+  const createEntry = (index: number): AuditEntry => ({
+    id: `entry-${index}`,
+    orderId: 'wo1',
+    action: AuditActionEnum.UPDATE,
+    actor: 'Dana',
+    timestamp: '2026-10-19T08:00:00.000Z',
+    label: 'Update "Weld frames"',
+    fieldChanges: [{ field: 'name', before: 'Old', after: 'New' }],
+    snapshot: {
+      id: 'wo1', name: 'New', workCenterId: 'wc1', startDate: '2026-10-01', endDate: '2026-10-08', status: WorkOrderStatusEnum.OPEN,
+    },
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LocalWorkOrderStorage);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should report a failed write to the subscriber instead of throwing', async () => {
+    const [order] = await firstValueFrom(service.loadOrders());
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+
+    const update = service.updateOrder({ ...order, name: 'Renamed' });
+
+    await expect(firstValueFrom(update)).rejects.toThrow('The quota has been exceeded.');
+    vi.restoreAllMocks();
+  });
+
+  it('should keep only the newest audit entries', async () => {
+    const entries = Array.from({ length: AUDIT_LOG_LIMIT + 5 }, (_, index) => createEntry(index));
+
+    await firstValueFrom(service.appendAuditEntries(entries.slice(0, 10)));
+    await firstValueFrom(service.appendAuditEntries(entries.slice(10)));
+    const storedEntries = await firstValueFrom(service.loadAuditEntries('wo1'));
+
+    expect(storedEntries.length).toBe(AUDIT_LOG_LIMIT);
+    expect(storedEntries[0].id).toBe('entry-5');
+    expect(storedEntries.at(-1)!.id).toBe(`entry-${AUDIT_LOG_LIMIT + 4}`);
+  });
+
+  it('should migrate numeric statuses in an audit log saved before statuses became configurable', async () => {
+    const legacyEntry = {
+      ...createEntry(0),
+      fieldChanges: [{ field: 'status', before: 0, after: 1 }],
+      snapshot: { ...createEntry(0).snapshot, status: 1 },
+    };
+
+    for (const savedLog of [[legacyEntry], { schemaVersion: 2, records: [legacyEntry] }]) {
+      localStorage.setItem('work-order-audit-log', JSON.stringify(savedLog));
+
+      const [entry] = await firstValueFrom(service.loadAuditEntries('wo1'));
+
+      expect(entry.fieldChanges).toEqual([{ field: 'status', before: WorkOrderStatusEnum.OPEN, after: WorkOrderStatusEnum.IN_PROGRESS }]);
+      expect(entry.snapshot.status).toBe(WorkOrderStatusEnum.IN_PROGRESS);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { inject, Injectable } from '@angular/core';
+import { defer, Observable, of } from 'rxjs';
+
+import { StorageSchemaService } from '../storage-schema-service/storage-schema.service';
+
+import { DEFAULT_STATUSES, DEFAULT_WORK_CENTERS, SEED_ORDERS } from './seed-data';
+import {
+  AUDIT_LOG_STORAGE_SCHEMA,
+  STATUS_STORAGE_SCHEMA,
+  WORK_CENTER_STORAGE_SCHEMA,
+  WORK_ORDER_STORAGE_SCHEMA
+} from './storage-schemas';
+
+import WorkOrderStorage from '../../models/work-order-storage';
+import WorkOrder from '../../models/work-order';
+import WorkCenter from '../../models/work-center';
+import AuditEntry from '../../models/audit-entry';
+import StatusDefinition from '../../models/status-definition';
+
+const STORAGE_KEY = 'work-orders';
+const WORK_CENTERS_STORAGE_KEY = 'work-centers';
+const STATUSES_STORAGE_KEY = 'work-order-statuses';
+const AUDIT_LOG_STORAGE_KEY = 'work-order-audit-log';
+
+// localStorage holds a few MB per origin; older audit entries are dropped beyond this count.
+export const AUDIT_LOG_LIMIT = 2000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalWorkOrderStorage implements WorkOrderStorage {
+  private readonly storageSchemaService: StorageSchemaService = inject(StorageSchemaService);
+
+  loadOrders(): Observable<WorkOrder[]> {
+    return of(this.readOrders());
+  }
+
+  loadWorkCenters(): Observable<WorkCenter[]> {
+    return of(this.readWorkCenters());
+  }
+
+  saveWorkCenters(workCenters: WorkCenter[]): Observable<WorkCenter[]> {
+    return defer(() => {
+      if (typeof localStorage !== 'undefined') {
+        this.storageSchemaService.write(WORK_CENTERS_STORAGE_KEY, WORK_CENTER_STORAGE_SCHEMA, workCenters);
+      }
+      return of(workCenters);
+    });
+  }
+
+  /** * WHAT: Hydrates the status definitions from the browser.
+   * HOW: Falls back to DEFAULT_STATUSES when nothing has been saved yet or the payload is unreadable.
+   */
+  loadStatuses(): Observable<StatusDefinition[]> {
+    if (typeof localStorage === 'undefined') return of(DEFAULT_STATUSES);
+
+    return of(this.storageSchemaService.read<StatusDefinition>(STATUSES_STORAGE_KEY, STATUS_STORAGE_SCHEMA) ?? DEFAULT_STATUSES);
+  }
+
+  saveStatuses(statuses: StatusDefinition[]): Observable<StatusDefinition[]> {
+    return defer(() => {
+      if (typeof localStorage !== 'undefined') {
+        this.storageSchemaService.write(STATUSES_STORAGE_KEY, STATUS_STORAGE_SCHEMA, statuses);
+      }
+      return of(statuses);
+    });
+  }
+
+  // Writes are deferred until subscription, so a failed write (e.g. a full quota) reaches the
+  // subscriber's error handler and the WorkOrderService can roll the change back.
+  createOrder(order: WorkOrder): Observable<WorkOrder> {
+    return defer(() => {
+      this.writeOrders([...this.readOrders(), order]);
+      return of(order);
+    });
+  }
+
+  updateOrder(order: WorkOrder): Observable<WorkOrder> {
+    return defer(() => {
+      this.writeOrders(this.readOrders().map(existingOrder => existingOrder.id === order.id ? order : existingOrder));
+      return of(order);
+    });
+  }
+
+  deleteOrder(orderId: string): Observable<void> {
+    return defer(() => {
+      this.writeOrders(this.readOrders().filter(existingOrder => existingOrder.id !== orderId));
+      return of(undefined);
+    });
+  }
+
+  /** * WHAT: Lists the logged changes of one order, oldest first.
+   * HOW: Read from storage on every call, so it includes what other tabs logged.
+   */
+  loadAuditEntries(orderId: string): Observable<AuditEntry[]> {
+    return of(this.readAuditLog().filter(entry => entry.orderId === orderId));
+  }
+
+  /** * WHAT: Adds entries to the audit log.
+   * HOW: Re-reads the stored log right before writing, so entries appended by other tabs are
+   * never overwritten, and keeps only the newest AUDIT_LOG_LIMIT entries.
+   */
+  appendAuditEntries(entries: AuditEntry[]): Observable<AuditEntry[]> {
+    return defer(() => {
+      if (typeof localStorage !== 'undefined') {
+        const auditLog = [...this.readAuditLog(), ...entries].slice(-AUDIT_LOG_LIMIT);
+        this.storageSchemaService.write(AUDIT_LOG_STORAGE_KEY, AUDIT_LOG_STORAGE_SCHEMA, auditLog);
+      }
+      return of(entries);
+    });
+  }
+
+  /** * WHAT: Hydrates the work order list from the browser.
+   * HOW: Checks for type safety (typeof localStorage), then lets the StorageSchemaService
+   * migrate and validate the saved envelope. Falls back to SEED_ORDERS when nothing has been
+   * saved yet or the payload was unreadable (it has been backed up by then).
+   */
+  private readOrders(): WorkOrder[] {
+    if (typeof localStorage === 'undefined') return SEED_ORDERS;
+
+    const orders = this.storageSchemaService.read<WorkOrder>(STORAGE_KEY, WORK_ORDER_STORAGE_SCHEMA);
+    if (orders) return orders;
+
+    this.writeOrders(SEED_ORDERS);
+    return SEED_ORDERS;
+  }
+
+  /** * WHAT: Hydrates the work center list from the browser.
+   * HOW: Mirrors 'readOrders', falling back to DEFAULT_WORK_CENTERS when nothing
+   * has been saved yet or the stored payload is unreadable.
+   */
+  private readWorkCenters(): WorkCenter[] {
+    if (typeof localStorage === 'undefined') return DEFAULT_WORK_CENTERS;
+
+    return this.storageSchemaService.read<WorkCenter>(WORK_CENTERS_STORAGE_KEY, WORK_CENTER_STORAGE_SCHEMA)
+      ?? DEFAULT_WORK_CENTERS;
+  }
+
+  private readAuditLog(): AuditEntry[] {
+    if (typeof localStorage === 'undefined') return [];
+
+    return this.storageSchemaService.read<AuditEntry>(AUDIT_LOG_STORAGE_KEY, AUDIT_LOG_STORAGE_SCHEMA) ?? [];
+  }
+
+  private writeOrders(orders: WorkOrder[]): void {
+    if (typeof localStorage !== 'undefined') {
+      this.storageSchemaService.write(STORAGE_KEY, WORK_ORDER_STORAGE_SCHEMA, orders);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, switchMap, throwError, timer } from 'rxjs';
+
+import { DEFAULT_STATUSES, DEFAULT_WORK_CENTERS, SEED_ORDERS } from './seed-data';
+import { AUDIT_LOG_LIMIT } from './local-work-order-storage.service';
+import { CalendarExportService } from '../calendar-export-service/calendar-export.service';
+
+import WorkOrder from '../../models/work-order';
+import WorkCenter from '../../models/work-center';
+import AuditEntry from '../../models/audit-entry';
+import StatusDefinition from '../../models/status-definition';
+
+const MOCK_LATENCY_MS = 300;
+
+const API_ROUTE_PATTERN = /\/api\/(work-orders|work-centers|statuses)(?:\/([^/?]+))?(?:\?.*)?$/;
+const AUDIT_LOG_ROUTE_PATTERN = /\/api\/(?:work-orders\/([^/?]+)\/)?audit-log(?:\?.*)?$/;
+const CALENDAR_ROUTE_PATTERN = /\/api\/(?:work-centers\/([^/?]+)\/)?calendar\.ics(?:\?.*)?$/;
+
+const mockDatabase: { orders: WorkOrder[]; workCenters: WorkCenter[]; statuses: StatusDefinition[]; auditLog: AuditEntry[] } = {
+  orders: structuredClone(SEED_ORDERS),
+  workCenters: structuredClone(DEFAULT_WORK_CENTERS),
+  statuses: structuredClone(DEFAULT_STATUSES),
+  auditLog: [],
+};
+
+/** * WHAT: In-memory stand-in for the Work Order REST API.
+ * HOW: Intercepts requests matching '/api/work-orders', '/api/work-centers', '/api/statuses',
+ * the audit log and the '.ics' calendar feeds, serves them from a module-level store with simulated latency
+ * and never touches the network. Anything outside the API is passed through untouched.
+ */
+export const mockWorkOrderApiInterceptor: HttpInterceptorFn = (request, next) => {
+  const calendarMatch = CALENDAR_ROUTE_PATTERN.exec(request.url);
+  if (calendarMatch) {
+    const calendarExportService = inject(CalendarExportService);
+    const workCenterId = calendarMatch[1] ? decodeURIComponent(calendarMatch[1]) : null;
+
+    return timer(MOCK_LATENCY_MS).pipe(
+      switchMap(() => handleCalendarFeed(request, workCenterId, calendarExportService))
+    );
+  }
+
+  const auditLogMatch = AUDIT_LOG_ROUTE_PATTERN.exec(request.url);
+  if (auditLogMatch) {
+    const orderId = auditLogMatch[1] ? decodeURIComponent(auditLogMatch[1]) : null;
+    return timer(MOCK_LATENCY_MS).pipe(switchMap(() => handleAuditLog(request, orderId)));
+  }
+
+  const match = API_ROUTE_PATTERN.exec(request.url);
+  if (!match) return next(request);
+
+  const [, collection, encodedId] = match;
+  const id = encodedId ? decodeURIComponent(encodedId) : null;
+
+  return timer(MOCK_LATENCY_MS).pipe(
+    switchMap(() => {
+      if (collection === 'work-orders') return handleWorkOrders(request, id);
+      if (collection === 'statuses') return handleStatuses(request, id);
+      return handleWorkCenters(request, id);
+    })
+  );
+};
+
+function handleWorkOrders(request: HttpRequest<unknown>, id: string | null): Observable<HttpResponse<unknown>> {
+  const existingIndex = id ? mockDatabase.orders.findIndex(order => order.id === id) : -1;
+
+  switch (request.method) {
+    case 'GET':
+      if (!id) return respond(200, mockDatabase.orders);
+      return existingIndex === -1 ? fail(404, `Work order ${id} not found`) : respond(200, mockDatabase.orders[existingIndex]);
+
+    case 'POST': {
+      const order = request.body as WorkOrder;
+      if (mockDatabase.orders.some(existingOrder => existingOrder.id === order.id)) {
+        return fail(409, `Work order ${order.id} already exists`);
+      }
+      mockDatabase.orders = [...mockDatabase.orders, order];
+      return respond(201, order);
+    }
+
+    case 'PUT': {
+      if (existingIndex === -1) return fail(404, `Work order ${id} not found`);
+      const order = request.body as WorkOrder;
+      mockDatabase.orders = mockDatabase.orders.map(existingOrder => existingOrder.id === id ? order : existingOrder);
+      return respond(200, order);
+    }
+
+    case 'DELETE':
+      if (existingIndex === -1) return fail(404, `Work order ${id} not found`);
+      mockDatabase.orders = mockDatabase.orders.filter(existingOrder => existingOrder.id !== id);
+      return respond(204, null);
+
+    default:
+      return fail(405, `${request.method} is not supported`);
+  }
+}
+
+function handleWorkCenters(request: HttpRequest<unknown>, id: string | null): Observable<HttpResponse<unknown>> {
+  if (request.method === 'PUT' && !id) {
+    mockDatabase.workCenters = request.body as WorkCenter[];
+    return respond(200, mockDatabase.workCenters);
+  }
+
+  if (request.method !== 'GET') return fail(405, `${request.method} is not supported`);
+  if (!id) return respond(200, mockDatabase.workCenters);
+
+  const workCenter = mockDatabase.workCenters.find(existingWorkCenter => existingWorkCenter.id === id);
+  return workCenter ? respond(200, workCenter) : fail(404, `Work center ${id} not found`);
+}
+
+function handleStatuses(request: HttpRequest<unknown>, id: string | null): Observable<HttpResponse<unknown>> {
+  if (id) return fail(404, `Unknown path ${request.url}`);
+  if (request.method === 'GET') return respond(200, mockDatabase.statuses);
+  if (request.method !== 'PUT') return fail(405, `${request.method} is not supported`);
+
+  mockDatabase.statuses = request.body as StatusDefinition[];
+  return respond(200, mockDatabase.statuses);
+}
+
+/** * WHAT: Change history of the orders.
+ * HOW: GET lists one order's entries oldest first; POST appends a batch to the shared log,
+ * which keeps the newest AUDIT_LOG_LIMIT entries like the local backend.
+ */
+function handleAuditLog(request: HttpRequest<unknown>, orderId: string | null): Observable<HttpResponse<unknown>> {
+  if (request.method === 'GET' && orderId) {
+    return respond(200, mockDatabase.auditLog.filter(entry => entry.orderId === orderId));
+  }
+
+  if (request.method === 'POST' && !orderId) {
+    const entries = request.body as AuditEntry[];
+    mockDatabase.auditLog = [...mockDatabase.auditLog, ...entries].slice(-AUDIT_LOG_LIMIT);
+    return respond(201, entries);
+  }
+
+  return fail(405, `${request.method} is not supported`);
+}
+
+/** * WHAT: Subscription feed for calendar clients (whole schedule or one work center).
+ * HOW: Renders the stored orders through the CalendarExportService; UIDs stay stable
+ * between polls, so clients update events in place.
+ */
+function handleCalendarFeed(
+  request: HttpRequest<unknown>,
+  workCenterId: string | null,
+  calendarExportService: CalendarExportService
+): Observable<HttpResponse<unknown>> {
+  if (request.method !== 'GET') return fail(405, `${request.method} is not supported`);
+
+  const workCenter = workCenterId
+    ? mockDatabase.workCenters.find(existingWorkCenter => existingWorkCenter.id === workCenterId)
+    : null;
+  if (workCenterId && !workCenter) return fail(404, `Work center ${workCenterId} not found`);
+
+  const orders = workCenter
+    ? mockDatabase.orders.filter(order => order.workCenterId === workCenter.id)
+    : mockDatabase.orders;
+
+  return respond(200, calendarExportService.buildCalendar(orders, mockDatabase.workCenters, workCenter?.name ?? 'Work orders'));
+}
+
+function respond(status: number, body: unknown): Observable<HttpResponse<unknown>> {
+  return of(new HttpResponse({ status, body: structuredClone(body) }));
+}
+
+function fail(status: number, message: string): Observable<never> {
+  return throwError(() => new HttpErrorResponse({ status, statusText: message, error: { message } }));
+}
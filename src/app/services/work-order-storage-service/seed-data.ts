@@ -0,0 +1,152 @@
+import WorkCenter from '../../models/work-center';
+import WorkOrder from '../../models/work-order';
+import StatusDefinition from '../../models/status-definition';
+import { WorkOrderStatusEnum } from '../../enums/work-order-status';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+
+export const DEFAULT_WORK_CENTERS: WorkCenter[] = [
+  { id: 'wc1', name: 'Genesis Hardware' },
+  { id: 'wc2', name: 'Rodriques Electrics' },
+  { id: 'wc3', name: 'Konsulting Inc' },
+  { id: 'wc4', name: 'McMarrow Distribution' },
+  { id: 'wc5', name: 'Spartan Manufacturing' },
+];
+
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { id: WorkOrderStatusEnum.OPEN, label: 'Open', color: '#00b0bf', category: StatusCategoryEnum.NOT_STARTED },
+  { id: WorkOrderStatusEnum.IN_PROGRESS, label: 'In Progress', color: '#3e40db', category: StatusCategoryEnum.ACTIVE },
+  { id: WorkOrderStatusEnum.COMPLETED, label: 'Completed', color: '#08a268', category: StatusCategoryEnum.DONE },
+  { id: WorkOrderStatusEnum.BLOCKED, label: 'Blocked', color: '#b13600', category: StatusCategoryEnum.BLOCKED },
+];
+
+export const SEED_ORDERS: WorkOrder[] = [
+  {
+    id: 'wo1',
+    name: 'Intrix Ltd',
+    workCenterId: 'wc1',
+    startDate: '2026-01-15',
+    endDate: '2026-03-20',
+    status: WorkOrderStatusEnum.COMPLETED,
+  },
+  {
+    id: 'wo2',
+    name: 'Rodriques Electrics',
+    workCenterId: 'wc2',
+    startDate: '2026-09-01',
+    endDate: '2026-12-15',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+    percentComplete: 45,
+  },
+  {
+    id: 'wo3',
+    name: 'Konsulting Inc',
+    workCenterId: 'wc3',
+    startDate: '2026-09-10',
+    endDate: '2026-11-01',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+    percentComplete: 70,
+  },
+  {
+    id: 'wo4',
+    name: 'Complex Systems',
+    workCenterId: 'wc3',
+    startDate: '2025-11-10',
+    endDate: '2026-02-15',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+  },
+  {
+    id: 'wo5',
+    name: 'McMarrow Distribution',
+    workCenterId: 'wc4',
+    startDate: '2025-09-20',
+    endDate: '2026-01-25',
+    status: WorkOrderStatusEnum.BLOCKED,
+    blockedReason: 'Waiting for customer sign-off',
+    blockedFromStatus: WorkOrderStatusEnum.IN_PROGRESS,
+  },
+  {
+    id: 'wo6',
+    name: 'Apex Manufacturing',
+    workCenterId: 'wc1',
+    startDate: '2026-05-01',
+    endDate: '2026-07-15',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+  },
+  {
+    id: 'wo7',
+    name: 'Global Logistics',
+    workCenterId: 'wc5',
+    startDate: '2026-02-01',
+    endDate: '2026-04-10',
+    status: WorkOrderStatusEnum.COMPLETED,
+  },
+  {
+    id: 'wo8',
+    name: 'Solaris Energy',
+    workCenterId: 'wc2',
+    startDate: '2026-01-10',
+    endDate: '2026-05-20',
+    status: WorkOrderStatusEnum.BLOCKED,
+    blockedReason: 'Awaiting material',
+    blockedFromStatus: WorkOrderStatusEnum.OPEN,
+  },
+  {
+    id: 'wo9',
+    name: 'Nova Tech Solutions',
+    workCenterId: 'wc4',
+    startDate: '2026-03-15',
+    endDate: '2026-06-01',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+  },
+  {
+    id: 'wo10',
+    name: 'Starlight Foundry',
+    workCenterId: 'wc5',
+    startDate: '2026-07-20',
+    endDate: '2026-10-30',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+    dependencies: [{ predecessorId: 'wo6', type: DependencyTypeEnum.FINISH_TO_START }],
+  },
+  {
+    id: 'wo11',
+    name: 'Blue Horizon Labs',
+    workCenterId: 'wc1',
+    startDate: '2025-06-01',
+    endDate: '2025-08-30',
+    status: WorkOrderStatusEnum.COMPLETED,
+  },
+  {
+    id: 'wo12',
+    name: 'Quantum Circuits',
+    workCenterId: 'wc3',
+    startDate: '2026-03-01',
+    endDate: '2026-05-15',
+    status: WorkOrderStatusEnum.IN_PROGRESS,
+    dependencies: [{ predecessorId: 'wo4', type: DependencyTypeEnum.FINISH_TO_START }],
+  },
+  {
+    id: 'wo13',
+    name: 'Horizon Analytics',
+    workCenterId: 'wc2',
+    startDate: '2025-11-01',
+    endDate: '2025-12-20',
+    status: WorkOrderStatusEnum.OPEN,
+  },
+  {
+    id: 'wo14',
+    name: 'Titan Heavy Industries',
+    workCenterId: 'wc4',
+    startDate: '2026-07-10',
+    endDate: '2026-09-05',
+    status: WorkOrderStatusEnum.OPEN,
+  },
+  {
+    id: 'wo15',
+    name: 'Velocity Cargo',
+    workCenterId: 'wc5',
+    startDate: '2026-11-15',
+    endDate: '2027-01-10',
+    status: WorkOrderStatusEnum.OPEN,
+  }
+];
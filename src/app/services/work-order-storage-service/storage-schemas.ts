@@ -0,0 +1,178 @@
+import StorageSchema from '../../models/storage-schema';
+import { AuditActionEnum } from '../../enums/audit-action';
+import { DependencyTypeEnum } from '../../enums/dependency-type';
+import { StatusCategoryEnum } from '../../enums/status-category';
+import { migrateLegacyOrder, migrateLegacyStatus } from '../status-config-service/legacy-status-ids';
+import { isIsoDateValue } from '../timeline-util-service/timeline-util.service';
+
+import WorkOrder from '../../models/work-order';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** * WHAT: Layout of the saved work orders.
+ * HOW: Version 1 is the bare array written before the envelope existed. Each future model
+ * change (a new field, renumbered enum values...) adds a migration with the next version.
+ */
+export const WORK_ORDER_STORAGE_SCHEMA: StorageSchema = {
+  label: 'work orders',
+  version: 3,
+  migrations: [
+    { toVersion: 2, description: 'Wrap the saved orders in a versioned envelope', migrate: records => records },
+    {
+      toVersion: 3,
+      description: 'Replace numeric statuses with configurable status ids',
+      migrate: records => records.map(record => isRecord(record) ? {
+        ...record,
+        status: migrateLegacyStatus(record['status']),
+        ...(record['blockedFromStatus'] !== undefined && { blockedFromStatus: migrateLegacyStatus(record['blockedFromStatus']) }),
+      } : record),
+    },
+  ],
+  validate(record: unknown): string[] {
+    if (!isRecord(record)) return ['Not an object.'];
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(record['id'])) errors.push('Missing id.');
+    if (typeof record['name'] !== 'string') errors.push('Missing name.');
+    if (!isNonEmptyString(record['workCenterId'])) errors.push('Missing work center.');
+    if (!isIsoDateValue(record['startDate'])) errors.push('Invalid start date.');
+    if (!isIsoDateValue(record['endDate'])) errors.push('Invalid end date.');
+    if (isIsoDateValue(record['startDate']) && isIsoDateValue(record['endDate']) && record['endDate'] < record['startDate']) {
+      errors.push('End date is before the start date.');
+    }
+    if (!isNonEmptyString(record['status'])) errors.push('Missing status.');
+
+    const dependencies = record['dependencies'];
+    if (dependencies !== undefined && (!Array.isArray(dependencies) || !dependencies.every(dependency =>
+      isRecord(dependency) && isNonEmptyString(dependency['predecessorId']) &&
+      typeof dependency['type'] === 'number' && DependencyTypeEnum[dependency['type']] !== undefined
+    ))) {
+      errors.push('Invalid dependencies.');
+    }
+
+    const percentComplete = record['percentComplete'];
+    if (percentComplete !== undefined && (typeof percentComplete !== 'number' || percentComplete < 0 || percentComplete > 100)) {
+      errors.push('Percent complete must be between 0 and 100.');
+    }
+
+    if (record['version'] !== undefined && typeof record['version'] !== 'number') errors.push('Invalid version.');
+    if (record['updatedAt'] !== undefined && typeof record['updatedAt'] !== 'string') errors.push('Invalid update time.');
+    if (record['blockedSince'] !== undefined && !isIsoDateValue(record['blockedSince'])) errors.push('Invalid blocked time.');
+    if (record['blockedReason'] !== undefined && typeof record['blockedReason'] !== 'string') errors.push('Invalid block reason.');
+    if (record['blockedFromStatus'] !== undefined && !isNonEmptyString(record['blockedFromStatus'])) {
+      errors.push('Invalid status before the block.');
+    }
+
+    return errors;
+  },
+};
+
+export const WORK_CENTER_STORAGE_SCHEMA: StorageSchema = {
+  label: 'work centers',
+  version: 2,
+  migrations: [
+    { toVersion: 2, description: 'Wrap the saved work centers in a versioned envelope', migrate: records => records },
+  ],
+  validate(record: unknown): string[] {
+    if (!isRecord(record)) return ['Not an object.'];
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(record['id'])) errors.push('Missing id.');
+    if (!isNonEmptyString(record['name'])) errors.push('Missing name.');
+
+    const capacity = record['capacity'];
+    if (capacity !== undefined && (!Number.isInteger(capacity) || (capacity as number) < 1)) {
+      errors.push('Capacity must be a whole number of at least 1.');
+    }
+    if (record['archived'] !== undefined && typeof record['archived'] !== 'boolean') errors.push('Invalid archived flag.');
+
+    const calendar = record['calendar'];
+    if (calendar !== undefined && !(isRecord(calendar) &&
+      Array.isArray(calendar['workingWeekdays']) && calendar['workingWeekdays'].every(weekday => Number.isInteger(weekday)) &&
+      Array.isArray(calendar['holidays']) && calendar['holidays'].every(holiday => isIsoDateValue(holiday))
+    )) {
+      errors.push('Invalid working calendar.');
+    }
+
+    return errors;
+  },
+};
+
+export const STATUS_STORAGE_SCHEMA: StorageSchema = {
+  label: 'statuses',
+  version: 2,
+  migrations: [
+    { toVersion: 2, description: 'Wrap the saved statuses in a versioned envelope', migrate: records => records },
+  ],
+  validate(record: unknown): string[] {
+    if (!isRecord(record)) return ['Not an object.'];
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(record['id'])) errors.push('Missing id.');
+    if (typeof record['label'] !== 'string') errors.push('Missing label.');
+    if (typeof record['color'] !== 'string' || !HEX_COLOR_PATTERN.test(record['color'])) errors.push('Color must be a #rrggbb value.');
+    if (typeof record['category'] !== 'number' || StatusCategoryEnum[record['category']] === undefined) errors.push('Invalid category.');
+
+    return errors;
+  },
+};
+
+const STATUS_FIELDS = ['status', 'blockedFromStatus'];
+
+function migrateLegacyAuditEntry(entry: Record<string, unknown>): Record<string, unknown> {
+  const fieldChanges = entry['fieldChanges'];
+
+  return {
+    ...entry,
+    ...(isRecord(entry['snapshot']) && { snapshot: migrateLegacyOrder(entry['snapshot'] as unknown as WorkOrder) }),
+    ...(Array.isArray(fieldChanges) && {
+      fieldChanges: fieldChanges.map(change => isRecord(change) && STATUS_FIELDS.includes(change['field'] as string)
+        ? { ...change, before: migrateLegacyStatus(change['before']), after: migrateLegacyStatus(change['after']) }
+        : change),
+    }),
+  };
+}
+
+/** * WHAT: Layout of the saved audit log.
+ * HOW: Version 1 is the bare array the log was first written as; version 3 maps the numeric
+ * statuses in its snapshots and field changes to status ids, so old versions still restore.
+ */
+export const AUDIT_LOG_STORAGE_SCHEMA: StorageSchema = {
+  label: 'change history entries',
+  version: 3,
+  migrations: [
+    { toVersion: 2, description: 'Wrap the audit log in a versioned envelope', migrate: records => records },
+    {
+      toVersion: 3,
+      description: 'Replace numeric statuses with configurable status ids',
+      migrate: records => records.map(record => isRecord(record) ? migrateLegacyAuditEntry(record) : record),
+    },
+  ],
+  validate(record: unknown): string[] {
+    if (!isRecord(record)) return ['Not an object.'];
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(record['id'])) errors.push('Missing id.');
+    if (!isNonEmptyString(record['orderId'])) errors.push('Missing order id.');
+    if (typeof record['action'] !== 'number' || AuditActionEnum[record['action']] === undefined) errors.push('Invalid action.');
+    if (typeof record['actor'] !== 'string') errors.push('Missing actor.');
+    if (!isNonEmptyString(record['timestamp'])) errors.push('Missing timestamp.');
+    if (typeof record['label'] !== 'string') errors.push('Missing label.');
+
+    const fieldChanges = record['fieldChanges'];
+    if (!Array.isArray(fieldChanges) || !fieldChanges.every(change => isRecord(change) && isNonEmptyString(change['field']))) {
+      errors.push('Invalid field changes.');
+    }
+    if (WORK_ORDER_STORAGE_SCHEMA.validate(record['snapshot']).length) errors.push('Invalid order snapshot.');
+
+    return errors;
+  },
+};
@@ -0,0 +1,46 @@
+import {
+  EnvironmentProviders,
+  inject,
+  InjectionToken,
+  makeEnvironmentProviders,
+  Provider
+} from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+
+import { LocalWorkOrderStorage } from './local-work-order-storage.service';
+import { HttpWorkOrderStorage, WORK_ORDER_API_URL } from './http-work-order-storage.service';
+import { mockWorkOrderApiInterceptor } from './mock-work-order-api.interceptor';
+
+import WorkOrderStorage from '../../models/work-order-storage';
+import { StorageBackendEnum } from '../../enums/storage-backend';
+
+export const WORK_ORDER_STORAGE = new InjectionToken<WorkOrderStorage>('WORK_ORDER_STORAGE', {
+  providedIn: 'root',
+  factory: () => inject(LocalWorkOrderStorage),
+});
+
+/** * WHAT: Selects the persistence backend used by the WorkOrderService.
+ * HOW: Binds WORK_ORDER_STORAGE to the chosen implementation. The HTTP backend also
+ * registers HttpClient and, when 'useMockApi' is set, the in-memory API interceptor.
+ */
+export function provideWorkOrderStorage(
+  backend: StorageBackendEnum,
+  options: { apiUrl?: string; useMockApi?: boolean } = {}
+): EnvironmentProviders {
+  if (backend === StorageBackendEnum.LOCAL) {
+    return makeEnvironmentProviders([
+      { provide: WORK_ORDER_STORAGE, useExisting: LocalWorkOrderStorage },
+    ]);
+  }
+
+  const providers: (Provider | EnvironmentProviders)[] = [
+    provideHttpClient(withInterceptors(options.useMockApi ? [mockWorkOrderApiInterceptor] : [])),
+    { provide: WORK_ORDER_STORAGE, useExisting: HttpWorkOrderStorage },
+  ];
+
+  if (options.apiUrl) {
+    providers.push({ provide: WORK_ORDER_API_URL, useValue: options.apiUrl });
+  }
+
+  return makeEnvironmentProviders(providers);
+}
@@ -0,0 +1,34 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DEFAULT_WORKING_CALENDAR, WorkingCalendarService } from './working-calendar.service';
+
+describe('WorkingCalendarService', () => {
+  let service: WorkingCalendarService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WorkingCalendarService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should skip weekends and holidays when adding working days', () => {
+    // 2026-10-16 is a Friday
+    expect(service.addWorkingDays('2026-10-16', 5, DEFAULT_WORKING_CALENDAR)).toBe('2026-10-23');
+    expect(service.addWorkingDays('2026-10-16', 5, { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-10-19'] })).toBe('2026-10-24');
+    expect(service.countWorkingDays('2026-10-16', '2026-10-23', DEFAULT_WORKING_CALENDAR)).toBe(5);
+  });
+
+  it('should merge consecutive non-working days into one span', () => {
+    const spans = service.getNonWorkingSpans(
+      new Date(2026, 9, 16),
+      new Date(2026, 9, 23),
+      { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-10-19'] }
+    );
+
+    expect(spans).toEqual([{ start: new Date(2026, 9, 17), end: new Date(2026, 9, 20) }]);
+  });
+});
@@ -0,0 +1,118 @@
+import { inject, Injectable, signal } from '@angular/core';
+
+import { WorkOrderService } from '../work-order-service/work-order.service';
+import { TimelineUtilService } from '../timeline-util-service/timeline-util.service';
+
+import WorkingCalendar from '../../models/working-calendar';
+import NonWorkingSpan from '../../models/non-working-span';
+
+const STORAGE_KEY = 'working-calendar';
+
+// Guards the day-by-day walks against calendars without a single working day.
+const MAX_SCANNED_DAYS = 3660;
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [],
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WorkingCalendarService {
+  private readonly workOrderService: WorkOrderService = inject(WorkOrderService);
+  private readonly timelineUtilService: TimelineUtilService = inject(TimelineUtilService);
+
+  // WHAT: Calendar used by every work center without its own.
+  // HOW: Kept in localStorage next to the undo history; per-center overrides live on the WorkCenter.
+  readonly defaultCalendar = signal<WorkingCalendar>(this.loadDefaultCalendar());
+
+  setDefaultCalendar(calendar: WorkingCalendar): void {
+    this.defaultCalendar.set(calendar);
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(calendar));
+    }
+  }
+
+  /** * WHAT: Resolves the calendar that applies to a work center.
+   * HOW: Falls back to the default calendar for unknown centers or centers without an override.
+   */
+  getCalendar(workCenterId: string | null): WorkingCalendar {
+    const workCenter = this.workOrderService.workCenters().find(candidate => candidate.id === workCenterId);
+    return workCenter?.calendar ?? this.defaultCalendar();
+  }
+
+  isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+    return calendar.workingWeekdays.includes(date.getDay()) &&
+      !calendar.holidays.includes(this.timelineUtilService.formatIsoDate(date));
+  }
+
+  /** * WHAT: Computes the end date of a job lasting 'workingDays' working days.
+   * HOW: Walks forward from the start day, counting only working days, and returns the day
+   * after the last one, matching the exclusive end used for bar widths and overlaps
+   * (a 5-day job started on Friday ends on the following Friday).
+   */
+  addWorkingDays(startDateIso: string, workingDays: number, calendar: WorkingCalendar): string {
+    const cursor = this.timelineUtilService.parseIsoDate(startDateIso.slice(0, 10));
+    let remainingDays = workingDays;
+
+    for (let scannedDays = 0; remainingDays > 0 && scannedDays < MAX_SCANNED_DAYS; scannedDays++) {
+      if (this.isWorkingDay(cursor, calendar)) remainingDays--;
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return this.timelineUtilService.formatIsoDate(cursor);
+  }
+
+  /** * WHAT: Counts the working days between a start and an (exclusive) end date.
+   * HOW: Only the calendar days matter, so times of day are ignored.
+   */
+  countWorkingDays(startDateIso: string, endDateIso: string, calendar: WorkingCalendar): number {
+    const cursor = this.timelineUtilService.parseIsoDate(startDateIso.slice(0, 10));
+    const end = this.timelineUtilService.parseIsoDate(endDateIso.slice(0, 10));
+    let workingDays = 0;
+
+    for (let scannedDays = 0; cursor < end && scannedDays < MAX_SCANNED_DAYS; scannedDays++) {
+      if (this.isWorkingDay(cursor, calendar)) workingDays++;
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return workingDays;
+  }
+
+  /** * WHAT: Lists the non-working stretches inside a date range (used for shading).
+   * HOW: Consecutive non-working days, e.g. a weekend followed by a holiday, are merged into one span.
+   */
+  getNonWorkingSpans(rangeStart: Date, rangeEnd: Date, calendar: WorkingCalendar): NonWorkingSpan[] {
+    const spans: NonWorkingSpan[] = [];
+    const cursor = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
+
+    while (cursor < rangeEnd) {
+      const nextDay = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+
+      if (!this.isWorkingDay(cursor, calendar)) {
+        const previousSpan = spans.at(-1);
+        if (previousSpan && previousSpan.end.getTime() === cursor.getTime()) previousSpan.end = nextDay;
+        else spans.push({ start: new Date(cursor), end: nextDay });
+      }
+
+      cursor.setTime(nextDay.getTime());
+    }
+
+    return spans;
+  }
+
+  private loadDefaultCalendar(): WorkingCalendar {
+    if (typeof localStorage === 'undefined') return DEFAULT_WORKING_CALENDAR;
+
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as WorkingCalendar | null;
+      return parsed && Array.isArray(parsed.workingWeekdays) && Array.isArray(parsed.holidays)
+        ? parsed
+        : DEFAULT_WORKING_CALENDAR;
+    } catch {
+      return DEFAULT_WORKING_CALENDAR;
+    }
+  }
+}